@@ -321,6 +321,27 @@ export abstract class BaseAccountManager {
     })
   }
 
+  async putRecord(
+    collection: string,
+    rkey: string,
+    record: Record<string, unknown>,
+  ): Promise<{ uri: string; cid: string }> {
+    if (!this._did) {
+      throw new Error(`${this.accountName} account is not available`)
+    }
+    const did = this._did
+
+    return this.withAuthRetry(async (agent) => {
+      const res = await agent.com.atproto.repo.putRecord({
+        repo: did,
+        collection,
+        rkey,
+        record,
+      })
+      return { uri: res.data.uri, cid: res.data.cid }
+    })
+  }
+
   async deleteRecord(collection: string, rkey: string): Promise<void> {
     if (!this._did) {
       throw new Error(`${this.accountName} account is not available`)
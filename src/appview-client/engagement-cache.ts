@@ -0,0 +1,32 @@
+import { TtlCache } from '../conversion/util/ttl-cache'
+import type { AppViewClient, PostCounts } from './index'
+
+// Counts only need to be roughly current, a short TTL keeps popular posts
+// from hitting the AppView on every fetch
+const ENGAGEMENT_COUNT_TTL_MS = 60 * 1000
+
+/**
+ * Cache of the Bluesky like, repost and reply counts of posts, looked up
+ * in the AppView.
+ */
+export class EngagementCountCache {
+  private appViewClient: Pick<AppViewClient, 'getPostCounts'>
+  private counts: TtlCache<PostCounts | null>
+
+  constructor(
+    appViewClient: Pick<AppViewClient, 'getPostCounts'>,
+    ttl: number = ENGAGEMENT_COUNT_TTL_MS,
+  ) {
+    this.appViewClient = appViewClient
+    this.counts = new TtlCache(ttl)
+  }
+
+  get(uri: string): Promise<PostCounts | null> {
+    return this.counts
+      .get(uri, async () => {
+        const counts = await this.appViewClient.getPostCounts([uri])
+        return counts.get(uri) ?? null
+      })
+      .catch(() => null)
+  }
+}
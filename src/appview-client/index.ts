@@ -6,6 +6,12 @@ export interface RecordResult {
   value: { [_ in string]: unknown }
 }
 
+export interface PostCounts {
+  likeCount: number
+  repostCount: number
+  replyCount: number
+}
+
 export interface ProfileResult {
   displayName?: string
   description?: string
@@ -88,6 +94,114 @@ export class AppViewClient {
     return record.value as ProfileResult
   }
 
+  /**
+   * Look up the current handle of an account. Returns null when the account
+   * is unknown to the AppView or its handle is invalid.
+   */
+  async getHandle(did: string): Promise<string | null> {
+    const params = new URLSearchParams({ actor: did })
+    const url = `${this.serviceUrl}/xrpc/app.bsky.actor.getProfile?${params}`
+
+    try {
+      const res = await fetch(url)
+      if (res.status === 404 || res.status === 400) {
+        return null
+      }
+      if (!res.ok) {
+        logger.warn('failed to get profile from appview', {
+          status: res.status,
+          did,
+        })
+        return null
+      }
+      const data = (await res.json()) as { handle?: string }
+      if (!data.handle || data.handle === 'handle.invalid') {
+        return null
+      }
+      return data.handle
+    } catch (err: unknown) {
+      logger.warn('failed to get profile from appview', { err, did })
+      return null
+    }
+  }
+
+  /**
+   * Get the Bluesky like, repost and reply counts of posts, keyed by URI.
+   * Posts the AppView doesn't know are left out.
+   */
+  async getPostCounts(uris: string[]): Promise<Map<string, PostCounts>> {
+    const counts = new Map<string, PostCounts>()
+    if (uris.length === 0) {
+      return counts
+    }
+    const params = new URLSearchParams(
+      uris.map((uri): [string, string] => ['uris', uri]),
+    )
+    const url = `${this.serviceUrl}/xrpc/app.bsky.feed.getPosts?${params}`
+
+    try {
+      const res = await fetch(url)
+      if (!res.ok) {
+        logger.warn('failed to get posts from appview', {
+          status: res.status,
+          uris,
+        })
+        return counts
+      }
+      const data = (await res.json()) as {
+        posts?: Array<{
+          uri: string
+          likeCount?: number
+          repostCount?: number
+          replyCount?: number
+        }>
+      }
+      for (const post of data.posts ?? []) {
+        counts.set(post.uri, {
+          likeCount: post.likeCount ?? 0,
+          repostCount: post.repostCount ?? 0,
+          replyCount: post.replyCount ?? 0,
+        })
+      }
+      return counts
+    } catch (err: unknown) {
+      logger.warn('failed to get posts from appview', { err, uris })
+      return counts
+    }
+  }
+
+  /**
+   * List the URIs of the direct replies to a post. Returns an empty list
+   * when the thread can't be fetched.
+   */
+  async getReplyUris(uri: string): Promise<string[]> {
+    const params = new URLSearchParams({ uri, depth: '1', parentHeight: '0' })
+    const url = `${this.serviceUrl}/xrpc/app.bsky.feed.getPostThread?${params}`
+
+    try {
+      const res = await fetch(url)
+      if (res.status === 404 || res.status === 400) {
+        return []
+      }
+      if (!res.ok) {
+        logger.warn('failed to get post thread from appview', {
+          status: res.status,
+          uri,
+        })
+        return []
+      }
+      const data = (await res.json()) as {
+        thread?: { replies?: Array<{ post?: { uri?: string } }> }
+      }
+      return (data.thread?.replies ?? []).flatMap((reply) =>
+        reply.post?.uri ? [reply.post.uri] : [],
+      )
+    } catch (err: unknown) {
+      logger.warn('failed to get post thread from appview', { err, uri })
+      return []
+    }
+  }
+
   async resolveHandle(handle: string): Promise<string | null> {
     const params = new URLSearchParams({ handle })
     const url = `${this.serviceUrl}/xrpc/com.atproto.identity.resolveHandle?${params}`
@@ -112,3 +226,5 @@ export class AppViewClient {
     }
   }
 }
+
+export { EngagementCountCache } from './engagement-cache'
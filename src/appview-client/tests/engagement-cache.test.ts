@@ -0,0 +1,62 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { EngagementCountCache } from '../engagement-cache'
+
+const postUri = 'at://did:plc:alice123/app.bsky.feed.post/abc'
+
+function createClient() {
+  return {
+    getPostCounts: vi.fn(
+      async (uris: string[]) =>
+        new Map(
+          uris.map((uri) => [
+            uri,
+            { likeCount: 5, repostCount: 2, replyCount: 1 },
+          ]),
+        ),
+    ),
+  }
+}
+
+describe('EngagementCountCache', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should fetch counts once within the TTL', async () => {
+    const client = createClient()
+    const cache = new EngagementCountCache(client, 60_000)
+
+    const [first, second] = await Promise.all([
+      cache.get(postUri),
+      cache.get(postUri),
+    ])
+    expect(await cache.get(postUri)).toEqual({
+      likeCount: 5,
+      repostCount: 2,
+      replyCount: 1,
+    })
+
+    expect(first).toEqual(second)
+    expect(client.getPostCounts).toHaveBeenCalledTimes(1)
+  })
+
+  it('should refetch counts once they expire', async () => {
+    vi.useFakeTimers()
+    const client = createClient()
+    const cache = new EngagementCountCache(client, 60_000)
+
+    await cache.get(postUri)
+    vi.advanceTimersByTime(60_001)
+    await cache.get(postUri)
+
+    expect(client.getPostCounts).toHaveBeenCalledTimes(2)
+  })
+
+  it('should return null when the AppView fails', async () => {
+    const cache = new EngagementCountCache({
+      getPostCounts: vi.fn().mockRejectedValue(new Error('down')),
+    })
+
+    expect(await cache.get(postUri)).toBeNull()
+  })
+})
@@ -18,6 +18,10 @@ export function readEnv() {
     mastodonBridgeDescription: envStr('AP_MASTODON_BRIDGE_DESCRIPTION'),
     mastodonBridgeAvatarUrl: envStr('AP_MASTODON_BRIDGE_AVATAR_URL'),
     allowPrivateAddress: envBool('AP_ALLOW_PRIVATE_ADDRESS'),
+    linkPreviewsEnabled: envBool('AP_LINK_PREVIEWS_ENABLED'),
+    longPostMode: envStr('AP_LONG_POST_MODE'),
+    threadgateVisibility: envStr('AP_THREADGATE_VISIBILITY'),
+    privateReplyMode: envStr('AP_PRIVATE_REPLY_MODE'),
     // Bluesky bridge account config
     blueskyBridgeEnabled: envBool('AP_BLUESKY_BRIDGE_ENABLED'),
     blueskyBridgeHandle: envStr('AP_BLUESKY_BRIDGE_HANDLE'),
@@ -33,11 +37,36 @@ export function readEnv() {
     dmNotificationsEnabled: envBool('AP_DM_NOTIFICATIONS_ENABLED'),
     dmNotificationsPollInterval: envInt('AP_DM_NOTIFICATIONS_POLL_INTERVAL'),
     dmNotificationsBatchDelay: envInt('AP_DM_NOTIFICATIONS_BATCH_DELAY'),
+    // Direct messages config
+    directMessagesEnabled: envBool('AP_DIRECT_MESSAGES_ENABLED'),
+    directMessagesPollInterval: envInt('AP_DIRECT_MESSAGES_POLL_INTERVAL'),
+    // Feed generator config
+    feedGeneratorEnabled: envBool('AP_FEED_GENERATOR_ENABLED'),
+    feedGeneratorDisplayName: envStr('AP_FEED_GENERATOR_DISPLAY_NAME'),
+    feedGeneratorDescription: envStr('AP_FEED_GENERATOR_DESCRIPTION'),
   }
 }
 
 export type ServerEnvironment = Partial<ReturnType<typeof readEnv>>
 
+/**
+ * `thread` splits long notes into a self-reply thread, `truncate` cuts them
+ * to a single post ending in a link to the original.
+ */
+export type LongPostMode = 'thread' | 'truncate'
+
+/**
+ * `unlisted` keeps posts with a restrictive threadgate public but out of
+ * Fediverse public timelines, `followers` addresses them to followers only.
+ */
+export type ThreadgateVisibility = 'unlisted' | 'followers'
+
+/**
+ * `dm` forwards non-public Fediverse replies to the post author as a
+ * Bluesky chat message, `drop` ignores them.
+ */
+export type PrivateReplyMode = 'dm' | 'drop'
+
 export interface APFederationConfig {
   service: {
     port: number
@@ -90,6 +119,34 @@ export interface APFederationConfig {
     pollInterval: number
     batchDelay: number
   }
+  /** Fediverse direct messages bridged to and from Bluesky chat */
+  directMessages: {
+    enabled: boolean
+    pollInterval: number
+  }
+  /** OpenGraph link cards for bridged Fediverse posts without media */
+  linkPreviews: {
+    enabled: boolean
+  }
+  /** How inbound notes over Bluesky's post length limit are bridged */
+  longPosts: {
+    mode: LongPostMode
+  }
+  /** How posts whose threadgate restricts replies are addressed */
+  threadgates: {
+    visibility: ThreadgateVisibility
+  }
+  /** How replies not addressed to the public are handled */
+  privateReplies: {
+    mode: PrivateReplyMode
+  }
+  /** Custom feed of posts from Fediverse accounts followed by local users */
+  feedGenerator: {
+    enabled: boolean
+    did: string
+    displayName: string
+    description: string
+  }
   /** Allow fetching private network addresses (for E2E testing only) */
   allowPrivateAddress?: boolean
 }
@@ -165,10 +222,63 @@ export function envToConfig(env: ServerEnvironment): APFederationConfig {
       pollInterval: env.dmNotificationsPollInterval ?? 300000, // 5 minutes
       batchDelay: env.dmNotificationsBatchDelay ?? 600000, // 10 minutes
     },
+    directMessages: {
+      enabled: env.directMessagesEnabled ?? true,
+      pollInterval: env.directMessagesPollInterval ?? 30000, // 30 seconds
+    },
+    linkPreviews: {
+      enabled: env.linkPreviewsEnabled ?? false,
+    },
+    longPosts: {
+      mode: parseLongPostMode(env.longPostMode),
+    },
+    threadgates: {
+      visibility: parseThreadgateVisibility(env.threadgateVisibility),
+    },
+    privateReplies: {
+      mode: parsePrivateReplyMode(env.privateReplyMode),
+    },
+    feedGenerator: {
+      enabled: env.feedGeneratorEnabled ?? false,
+      did: `did:web:${hostname}`,
+      displayName: env.feedGeneratorDisplayName ?? 'Fediverse Following',
+      description:
+        env.feedGeneratorDescription ??
+        'Posts from the Fediverse accounts you follow.',
+    },
     allowPrivateAddress: env.allowPrivateAddress ?? false,
   }
 }
 
+function parseLongPostMode(value: string | undefined): LongPostMode {
+  if (value === undefined || value === 'thread' || value === 'truncate') {
+    return value ?? 'thread'
+  }
+  throw new Error(
+    `Invalid AP_LONG_POST_MODE: ${value} (expected "thread" or "truncate")`,
+  )
+}
+
+function parseThreadgateVisibility(
+  value: string | undefined,
+): ThreadgateVisibility {
+  if (value === undefined || value === 'unlisted' || value === 'followers') {
+    return value ?? 'unlisted'
+  }
+  throw new Error(
+    `Invalid AP_THREADGATE_VISIBILITY: ${value} (expected "unlisted" or "followers")`,
+  )
+}
+
+function parsePrivateReplyMode(value: string | undefined): PrivateReplyMode {
+  if (value === undefined || value === 'dm' || value === 'drop') {
+    return value ?? 'dm'
+  }
+  throw new Error(
+    `Invalid AP_PRIVATE_REPLY_MODE: ${value} (expected "dm" or "drop")`,
+  )
+}
+
 function requireEnv(name: string, value: string | undefined): string {
   if (!value) {
     throw new Error(`Missing required environment variable: ${name}`)
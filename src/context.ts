@@ -1,14 +1,19 @@
 import { DatabaseSync } from 'node:sqlite'
 import { createFederation, type Federation } from '@fedify/fedify'
 import { SqliteKvStore, SqliteMessageQueue } from '@fedify/sqlite'
-import { AppViewClient } from './appview-client'
+import { AppViewClient, EngagementCountCache } from './appview-client'
 import { BlueskyBridgeAccountManager } from './bluesky-bridge'
 import { APFederationConfig } from './config'
+import { TtlCache, type MentionTarget } from './conversion'
 import { APDatabase } from './db'
+import { ChatClient } from './dm-notifications'
 import { logger } from './logger'
 import { MastodonBridgeAccountManager } from './mastodon-bridge'
 import { PDSClient } from './pds-client'
 
+// Handles and Bridgy Fed opt-ins of mentioned users rarely change
+const MENTION_TARGET_TTL_MS = 15 * 60 * 1000
+
 export type AppContextOptions = {
   cfg: APFederationConfig
   db: APDatabase
@@ -16,6 +21,7 @@ export type AppContextOptions = {
   mastodonBridgeAccount: MastodonBridgeAccountManager
   blueskyBridgeAccount: BlueskyBridgeAccountManager
   appViewClient: AppViewClient
+  chatClient: ChatClient
   federation: Federation<void>
   logger: typeof logger
 }
@@ -27,8 +33,14 @@ export class AppContext {
   public mastodonBridgeAccount: MastodonBridgeAccountManager
   public blueskyBridgeAccount: BlueskyBridgeAccountManager
   public appViewClient: AppViewClient
+  public chatClient: ChatClient
   public federation: Federation<void>
   public logger: typeof logger
+  public mentionTargets = new TtlCache<MentionTarget | null>(
+    MENTION_TARGET_TTL_MS,
+  )
+  /** Bluesky engagement counts of local posts, shown on their Notes */
+  public engagementCounts: EngagementCountCache
 
   constructor(opts: AppContextOptions) {
     this.cfg = opts.cfg
@@ -37,6 +49,8 @@ export class AppContext {
     this.mastodonBridgeAccount = opts.mastodonBridgeAccount
     this.blueskyBridgeAccount = opts.blueskyBridgeAccount
     this.appViewClient = opts.appViewClient
+    this.engagementCounts = new EngagementCountCache(opts.appViewClient)
+    this.chatClient = opts.chatClient
     this.federation = opts.federation
     this.logger = opts.logger
   }
@@ -55,6 +69,7 @@ export class AppContext {
       pdsClient,
     )
     const appViewClient = new AppViewClient(cfg.appView.url)
+    const chatClient = new ChatClient(mastodonBridgeAccount)
     const kvDbPath = cfg.db.location.replace(/\.sqlite$/, '-kv.sqlite')
     const kvDb = new DatabaseSync(kvDbPath)
     const federation = createFederation<void>({
@@ -69,6 +84,7 @@ export class AppContext {
       mastodonBridgeAccount,
       blueskyBridgeAccount,
       appViewClient,
+      chatClient,
       federation,
       logger,
     })
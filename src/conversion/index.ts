@@ -4,3 +4,10 @@ export * from './like'
 export * from './repost'
 export * from './util/html-parser'
 export * from './util/blob-handler'
+export * from './util/bridgy-fed'
+export * from './util/is-local-user'
+export * from './util/threadgate'
+export * from './util/remote-actor'
+export * from './util/poll'
+export * from './util/object-mapping'
+export * from './util/ttl-cache'
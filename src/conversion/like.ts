@@ -7,6 +7,7 @@ import { isLocalUser } from './util/is-local-user'
 
 export const likeConverter: RecordConverter<LikeRecord, Note> = {
   collection: 'app.bsky.feed.like',
+  activityTypes: [Like],
 
   async toActivityPub(ctx, identifier, record, pdsClient, _options) {
     const like = record.value
@@ -49,4 +50,8 @@ export const likeConverter: RecordConverter<LikeRecord, Note> = {
   async toRecord() {
     return null
   },
+
+  async storeEngagement(db, engagement) {
+    await db.createLike(engagement)
+  },
 }
@@ -1,8 +1,20 @@
 import { RichText, type Facet } from '@atproto/api'
+import {
+  isMain as isEmbedExternalOriginal,
+  type Main as EmbedExternal,
+} from '@atproto/api/dist/client/types/app/bsky/embed/external'
 import {
   isMain as isEmbedImagesOriginal,
   type Main as EmbedImages,
 } from '@atproto/api/dist/client/types/app/bsky/embed/images'
+import {
+  isMain as isEmbedRecordOriginal,
+  type Main as EmbedRecord,
+} from '@atproto/api/dist/client/types/app/bsky/embed/record'
+import {
+  isMain as isEmbedRecordWithMediaOriginal,
+  type Main as EmbedRecordWithMedia,
+} from '@atproto/api/dist/client/types/app/bsky/embed/recordWithMedia'
 import {
   isMain as isEmbedVideoOriginal,
   type Main as EmbedVideo,
@@ -13,6 +25,7 @@ import type {
 } from '@atproto/api/dist/client/types/app/bsky/feed/post'
 import {
   isMention as isMentionFacet,
+  isTag as isTagFacet,
   type Mention as MentionFacet,
 } from '@atproto/api/dist/client/types/app/bsky/richtext/facet'
 import { isSelfLabels } from '@atproto/api/dist/client/types/com/atproto/label/defs'
@@ -20,19 +33,32 @@ import { TID } from '@atproto/common'
 import { cidForLex, type LexValue } from '@atproto/lex-cbor'
 import { BlobRef } from '@atproto/lexicon'
 import { AtUri } from '@atproto/syntax'
+import type { Context } from '@fedify/fedify'
 import {
+  Article,
   Collection,
   Create,
   Document,
+  Hashtag,
+  Image,
+  Link,
   Mention,
   Note,
+  Page,
   PUBLIC_COLLECTION,
+  Question,
+  Video,
 } from '@fedify/vocab'
 import { Temporal } from '@js-temporal/polyfill'
 import escapeHtml from 'escape-html'
 import { getWideEvent } from '../logging'
 import { PDSClient } from '../pds-client'
-import { RecordConverter } from './registry'
+import {
+  RecordConverter,
+  type MentionTarget,
+  type ToActivityPubContext,
+  type ToRecordContext,
+} from './registry'
 import {
   downloadAttachments,
   isImageMimeType,
@@ -40,6 +66,12 @@ import {
   type AttachmentInfo,
   type DownloadedBlob,
 } from './util/blob-handler'
+import {
+  BRIDGY_FED_BSKY_HOST,
+  getBridgyFedDid,
+  getBridgyFedHandle,
+  lookupBridgyFedActor,
+} from './util/bridgy-fed'
 import {
   type CollectedLink,
   extractLanguage,
@@ -50,6 +82,26 @@ import {
   contentWarningToLabels,
   labelsToContentWarning,
 } from './util/label-mapping'
+import { buildExternalEmbed } from './util/link-preview'
+import { articleToNote, mediaToNote } from './util/object-mapping'
+import { buildQuestionValues, parsePoll, questionToNote } from './util/poll'
+import { findFediverseHandles, resolveRemoteActor } from './util/remote-actor'
+import {
+  countGraphemes,
+  splitRichText,
+  truncateRichText,
+} from './util/text-splitter'
+import {
+  getPostgate,
+  getThreadgate,
+  postgateAllowsEmbedding,
+  restrictsReplies,
+} from './util/threadgate'
+
+// Media types identifying a FEP-e232 link to an ActivityPub object
+const AS2_LINK_MEDIA_TYPE =
+  'application/ld+json; profile="https://www.w3.org/ns/activitystreams"'
+const AS2_MEDIA_TYPES = ['application/activity+json', AS2_LINK_MEDIA_TYPE]
 
 function isEmbedImages(embed: unknown): embed is EmbedImages {
   return isEmbedImagesOriginal(embed)
@@ -59,6 +111,18 @@ function isEmbedVideo(embed: unknown): embed is EmbedVideo {
   return isEmbedVideoOriginal(embed)
 }
 
+function isEmbedExternal(embed: unknown): embed is EmbedExternal {
+  return isEmbedExternalOriginal(embed)
+}
+
+function isEmbedRecord(embed: unknown): embed is EmbedRecord {
+  return isEmbedRecordOriginal(embed)
+}
+
+function isEmbedRecordWithMedia(embed: unknown): embed is EmbedRecordWithMedia {
+  return isEmbedRecordWithMediaOriginal(embed)
+}
+
 /**
  * Extract text from a string using byte indices.
  * ATProto facets use UTF-8 byte indices, so we need to convert.
@@ -74,15 +138,32 @@ function extractTextByByteRange(
   return decoder.decode(bytes.slice(byteStart, byteEnd))
 }
 
-export const postConverter: RecordConverter<Post, Note> = {
+export const postConverter: RecordConverter<Post, Note | Question> = {
   collection: 'app.bsky.feed.post',
-  objectTypes: [Note],
+  objectTypes: [Note, Question, Article, Page, Video, Image],
+
+  // Replies and posts that are not Notes are bridged as text summaries, or
+  // as a Note with their media attached
+  async fromObject(object) {
+    if (object instanceof Note) {
+      return object
+    }
+    if (object instanceof Question) {
+      return questionToNote(object)
+    }
+    if (object instanceof Article || object instanceof Page) {
+      return articleToNote(object)
+    }
+    if (object instanceof Video || object instanceof Image) {
+      return mediaToNote(object)
+    }
+    return null
+  },
 
   async toActivityPub(ctx, identifier, record, pdsClient, options) {
     const post = record.value
     const apUri = ctx.getObjectUri(Note, { uri: record.uri })
-    const to = PUBLIC_COLLECTION
-    const ccUris: URL[] = [ctx.getFollowersUri(identifier)]
+    const mentionedUris: URL[] = []
     const actor = ctx.getActorUri(identifier)
 
     let replyTarget: URL | undefined
@@ -98,6 +179,7 @@ export const postConverter: RecordConverter<Post, Note> = {
 
     // Extract mentions from ATProto facets and build ActivityPub Mention tags
     const mentionTags: Mention[] = []
+    const mentionTargets = new Map<string, MentionTarget | null>()
     if (post.facets) {
       for (const facet of post.facets) {
         for (const feature of facet.features) {
@@ -105,10 +187,21 @@ export const postConverter: RecordConverter<Post, Note> = {
             const mentionFeature = feature as MentionFacet
             const mentionedDid = mentionFeature.did
 
-            // Only include mentions of local PDS users
-            if (await isLocalUser(pdsClient, mentionedDid)) {
-              const mentionedActorUri = ctx.getActorUri(mentionedDid)
+            if (!mentionTargets.has(mentionedDid)) {
+              mentionTargets.set(
+                mentionedDid,
+                await resolveMentionTarget(
+                  ctx,
+                  pdsClient,
+                  mentionedDid,
+                  options,
+                ),
+              )
+            }
+            const target = mentionTargets.get(mentionedDid)
 
+            // Users without an ActivityPub actor are only linked in content
+            if (target?.actor) {
               const mentionText = extractTextByByteRange(
                 post.text,
                 facet.index.byteStart,
@@ -117,34 +210,139 @@ export const postConverter: RecordConverter<Post, Note> = {
 
               mentionTags.push(
                 new Mention({
-                  href: mentionedActorUri,
-                  name: mentionText,
+                  href: target.actor,
+                  name: target.name ?? mentionText,
                 }),
               )
 
-              ccUris.push(mentionedActorUri)
+              mentionedUris.push(target.actor)
             }
           }
         }
       }
     }
 
-    const content = plainTextToHtml(post.text)
+    // Fediverse handles written in the text, e.g. "@alice@mastodon.social",
+    // are resolved via WebFinger. They get facets keyed by their acct: URI
+    // so they render like the other mentions.
+    const facets = [...(post.facets ?? [])]
+    const richText = new RichText({ text: post.text })
+    for (const handle of findFediverseHandles(post.text)) {
+      const byteStart = richText.unicodeText.utf16IndexToUtf8Index(handle.start)
+      const byteEnd = richText.unicodeText.utf16IndexToUtf8Index(handle.end)
+      const overlapsFacet = facets.some(
+        (facet) =>
+          facet.index.byteStart < byteEnd && byteStart < facet.index.byteEnd,
+      )
+      if (overlapsFacet) {
+        continue
+      }
+
+      const key = `acct:${handle.acct.toLowerCase()}`
+      if (!mentionTargets.has(key)) {
+        const remoteActor = await resolveRemoteActor(
+          ctx,
+          handle.acct,
+          options?.db,
+        )
+        const actor = remoteActor ? new URL(remoteActor.actorUri) : undefined
+        mentionTargets.set(key, actor ? { href: actor, actor } : null)
+        if (actor) {
+          mentionTags.push(
+            new Mention({ href: actor, name: `@${handle.acct}` }),
+          )
+          mentionedUris.push(actor)
+        }
+      }
+      if (mentionTargets.get(key)) {
+        facets.push({
+          index: { byteStart, byteEnd },
+          features: [{ $type: 'app.bsky.richtext.facet#mention', did: key }],
+        })
+      }
+    }
+
+    // Hashtags link to the local tag endpoint, as Mastodon does for its own
+    const hashtagTags: Hashtag[] = []
+    const seenTags = new Set<string>()
+    for (const facet of post.facets ?? []) {
+      for (const feature of facet.features) {
+        if (isTagFacet(feature) && !seenTags.has(feature.tag.toLowerCase())) {
+          seenTags.add(feature.tag.toLowerCase())
+          hashtagTags.push(
+            new Hashtag({
+              href: getTagUrl(ctx, feature.tag),
+              name: `#${feature.tag}`,
+            }),
+          )
+        }
+      }
+    }
+
+    // Quote posts carry quoteUrl/_misskey_quote plus a FEP-e232 object link,
+    // and a "RE: url" line for software without quote support
+    const quoteTarget = await resolveQuoteTarget(
+      ctx,
+      pdsClient,
+      record.uri,
+      post.embed,
+      options,
+    )
+    const tags: Array<Mention | Hashtag | Link> = [
+      ...mentionTags,
+      ...hashtagTags,
+    ]
+    // Polls show their options as a Question rather than in the text
+    const poll = parsePoll(post.text)
+    let content: string
+    if (poll) {
+      const pollTextBytes = Buffer.byteLength(poll.text, 'utf8')
+      content = richTextToHtml(
+        ctx,
+        poll.text,
+        facets.filter((facet) => facet.index.byteEnd <= pollTextBytes),
+        mentionTargets,
+      )
+    } else {
+      content = richTextToHtml(ctx, post.text, facets, mentionTargets)
+    }
+    const external = getExternalEmbed(post.embed)
+    if (external) {
+      content += `\n${buildExternalCardHtml(external)}`
+    }
+    if (quoteTarget) {
+      tags.push(
+        new Link({
+          href: quoteTarget,
+          mediaType: AS2_LINK_MEDIA_TYPE,
+          name: `RE: ${quoteTarget.href}`,
+        }),
+      )
+      const quoteHref = escapeHtml(quoteTarget.href)
+      content += `\n<p class="quote-inline">RE: <a href="${quoteHref}">${quoteHref}</a></p>`
+    }
+
     // TODO: Re-enable LanguageString once Fedify fixes the bug where
     // @fedify/vocab bundles its own LanguageString class instead of
     // using the one from @fedify/vocab-runtime (instanceof check fails).
     const contents: Array<string> = [content]
+    const blueskyCounts = await options?.engagementCounts?.get(record.uri)
+    // Fediverse replies are bridged to Bluesky, so the AppView counts them
     const replies = new Collection({
       id: new URL(`${apUri.href}/replies`),
-      totalItems: 0,
+      totalItems: blueskyCounts?.replyCount ?? 0,
     })
     const shares = new Collection({
       id: new URL(`${apUri.href}/shares`),
-      totalItems: 0,
+      totalItems:
+        ((await options?.db?.getRepostsCountForPost(record.uri)) ?? 0) +
+        (blueskyCounts?.repostCount ?? 0),
     })
     const likes = new Collection({
       id: new URL(`${apUri.href}/likes`),
-      totalItems: 0,
+      totalItems:
+        ((await options?.db?.getLikesCountForPost(record.uri)) ?? 0) +
+        (blueskyCounts?.likeCount ?? 0),
     })
     const published = Temporal.Instant.from(post.createdAt)
 
@@ -158,11 +356,21 @@ export const postConverter: RecordConverter<Post, Note> = {
       }
     }
 
-    const note = new Note({
+    const { tos, ccs } = await getPostAddressing(
+      ctx,
+      pdsClient,
+      identifier,
+      record.uri,
+      post,
+      mentionedUris,
+      options,
+    )
+
+    const values = {
       id: apUri,
       attribution: actor,
-      to,
-      ccs: ccUris,
+      tos,
+      ccs,
       mediaType: 'text/html',
       published,
       replyTarget,
@@ -171,10 +379,21 @@ export const postConverter: RecordConverter<Post, Note> = {
       shares,
       likes,
       attachments: buildAttachmentsFromEmbed(pdsClient, identifier, post.embed),
-      tags: mentionTags.length > 0 ? mentionTags : undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      quoteUrl: quoteTarget ?? undefined,
       sensitive,
       summary,
-    })
+    }
+    const note = poll
+      ? new Question({
+          ...values,
+          ...buildQuestionValues(
+            poll,
+            published,
+            (await options?.db?.getPollVoteCounts(record.uri)) ?? new Map(),
+          ),
+        })
+      : new Note(values)
 
     return {
       object: note,
@@ -185,8 +404,8 @@ export const postConverter: RecordConverter<Post, Note> = {
         ),
         actor,
         published,
-        to,
-        ccs: ccUris,
+        tos,
+        ccs,
         object: note,
       }),
     }
@@ -206,17 +425,49 @@ export const postConverter: RecordConverter<Post, Note> = {
 
       const { text: htmlContent, language } = extractLanguage(content)
 
-      const parsed = parseHtmlContent(htmlContent, language)
+      // Quotes of local or bridged posts become record embeds, which replace
+      // the quote fallback in the text. Other quote URLs are kept as a link
+      const quoteUrl = await extractQuoteUrl(object)
+      let quoted = quoteUrl
+        ? await fetchReferencedPost(quoteUrl, options).catch(() => null)
+        : null
+      if (quoteUrl) {
+        event?.set('conversion.quote_url', quoteUrl.href)
+        event?.set('conversion.quote_resolved', quoted !== null)
+      }
+      if (quoted && !(await isEmbeddingAllowed(quoted.uri, options))) {
+        event?.set('conversion.quote_disallowed', true)
+        quoted = null
+      }
 
-      // Bluesky posts have a 300 grapheme limit, but we'll use 3000 bytes as a safe limit
-      const MAX_TEXT_BYTES = 3000
+      const parsed = parseHtmlContent(htmlContent, language, {
+        stripQuoteFallback: quoted !== null,
+      })
       let text = parsed.text
-      if (Buffer.byteLength(text, 'utf8') > MAX_TEXT_BYTES) {
-        // Truncate text to fit within limit
-        const encoder = new TextEncoder()
-        const decoder = new TextDecoder()
-        const bytes = encoder.encode(text)
-        text = decoder.decode(bytes.slice(0, MAX_TEXT_BYTES - 3)) + '...'
+
+      // Hashtag links without Mastodon's markup are recognized by the
+      // Hashtag tags of the note
+      const hashtagHrefs = await extractHashtagHrefs(object)
+      for (const link of parsed.links) {
+        if (link.textContent.startsWith('#') && hashtagHrefs.has(link.href)) {
+          link.isHashtag = true
+          link.isMention = false
+        }
+      }
+
+      if (
+        quoteUrl &&
+        !quoted &&
+        !parsed.hasQuoteFallback &&
+        !parsed.links.some((link) => link.href === quoteUrl.href)
+      ) {
+        text = `${text}\n\nRE: ${quoteUrl.href}`
+        parsed.links.push({
+          href: quoteUrl.href,
+          textContent: quoteUrl.href,
+          isMention: false,
+          isHashtag: false,
+        })
       }
 
       let embed: Post['embed'] = undefined
@@ -230,22 +481,44 @@ export const postConverter: RecordConverter<Post, Note> = {
           embed = buildEmbedFromBlobs(downloadedBlobs)
         }
       }
+      if (
+        !embed &&
+        !quoted &&
+        options?.fetchLinkPreviews &&
+        options.uploadBlob
+      ) {
+        const previewLink = parsed.links.find(
+          (link) => !link.isMention && /^https?:\/\//i.test(link.href),
+        )
+        if (previewLink) {
+          embed =
+            (await buildExternalEmbed(options.uploadBlob, previewLink.href, {
+              allowPrivateAddress: options.allowPrivateAddress,
+            })) ?? undefined
+          event?.set('conversion.link_preview', embed !== undefined)
+        }
+      }
+      if (quoted) {
+        embed = buildQuoteEmbed(quoted, embed)
+      }
 
       let reply: ReplyRef | undefined = undefined
       const replyTargetUrl = object.replyTargetId
       if (replyTargetUrl) {
-        const replyRef = await parseReplyTarget(ctx, replyTargetUrl)
+        const replyRef = await parseReplyTarget(replyTargetUrl, options)
         if (replyRef) {
           reply = replyRef
         }
       }
 
       const linkFacets = buildLinkFacets(text, parsed.links)
+      const tagFacets = buildTagFacets(text, parsed.links)
 
       const mentionFacets = await buildMentionFacetsFromLinks(
         text,
         parsed.links,
-        options?.pdsClient,
+        await extractMentionNames(object),
+        options,
       )
 
       const published = object.published
@@ -263,7 +536,7 @@ export const postConverter: RecordConverter<Post, Note> = {
         record.langs = parsed.langs
       }
 
-      const allFacets = [...linkFacets, ...mentionFacets]
+      const allFacets = [...linkFacets, ...tagFacets, ...mentionFacets]
       if (allFacets.length > 0) {
         record.facets = allFacets
       }
@@ -305,11 +578,75 @@ export const postConverter: RecordConverter<Post, Note> = {
   },
 }
 
+/**
+ * Split a converted post whose text is over Bluesky's length limit into
+ * records for a self-reply thread. The first record keeps the embed, reply
+ * and labels; reply refs for the rest are filled in as they are created.
+ */
+export function splitPostRecord(record: Post): Post[] {
+  const chunks = splitRichText(record.text, record.facets ?? [])
+  if (chunks.length <= 1) {
+    return [record]
+  }
+
+  return chunks.map((chunk, index) => {
+    const base: Post =
+      index === 0
+        ? { ...record }
+        : {
+            $type: 'app.bsky.feed.post',
+            text: '',
+            createdAt: record.createdAt,
+            ...(record.langs ? { langs: record.langs } : {}),
+            ...(record.labels ? { labels: record.labels } : {}),
+          }
+    base.text = chunk.text
+    if (chunk.facets.length > 0) {
+      base.facets = chunk.facets
+    } else {
+      delete base.facets
+    }
+    return base
+  })
+}
+
+/**
+ * Cut a converted post whose text is over Bluesky's length limit down to a
+ * single post, ending with a "Read more" link to the original note.
+ */
+export function truncatePostRecord(record: Post, readMoreUrl: string): Post {
+  const ellipsis = '…\n\n'
+  const label = 'Read more'
+  const labelStart = Buffer.byteLength(ellipsis, 'utf8')
+  const { text, facets } = truncateRichText(record.text, record.facets ?? [], {
+    text: ellipsis + label,
+    facets: [
+      {
+        index: {
+          byteStart: labelStart,
+          byteEnd: labelStart + Buffer.byteLength(label, 'utf8'),
+        },
+        features: [{ $type: 'app.bsky.richtext.facet#link', uri: readMoreUrl }],
+      },
+    ],
+  })
+
+  const truncated: Post = { ...record, text }
+  if (facets.length > 0) {
+    truncated.facets = facets
+  } else {
+    delete truncated.facets
+  }
+  return truncated
+}
+
 function computeRecordCid(record: Post) {
   return cidForLex(record as unknown as LexValue)
 }
 
-async function extractAttachments(note: Note): Promise<AttachmentInfo[]> {
+async function extractAttachments(
+  note: Note | Question,
+): Promise<AttachmentInfo[]> {
   const attachments: AttachmentInfo[] = []
 
   const noteAttachments = note.getAttachments()
@@ -374,36 +711,70 @@ function buildEmbedFromBlobs(
 }
 
 /**
- * Parse an ActivityPub reply target URL to a Bluesky reply reference.
- * AP URLs are in the format: https://hostname/posts/at://did:plc:xxx/app.bsky.feed.post/rkey
+ * Fetch the Bluesky post behind an ActivityPub object URL. Local objects are
+ * served at /posts/at://did:xxx/collection/rkey, bridged Fediverse notes are
+ * found through their post mapping.
+ */
+async function fetchReferencedPost(
+  objectUrl: URL,
+  options?: ToRecordContext,
+): Promise<{ uri: string; cid: string; value: unknown } | null> {
+  const atUriMatch = objectUrl.pathname.match(
+    /\/posts\/(at:\/\/[^/]+\/[^/]+\/[^/]+)/,
+  )
+  let postUri = atUriMatch?.[1]
+  if (!postUri && options?.db) {
+    const mapping = await options.db.getPostMappingByApNoteId(objectUrl.href)
+    postUri = mapping?.atUri
+  }
+  if (!postUri) {
+    return null
+  }
+
+  const atUri = new AtUri(postUri)
+  const record = await options?.pdsClient?.getRecord(
+    atUri.host,
+    atUri.collection,
+    atUri.rkey,
+  )
+  if (record) {
+    return record
+  }
+
+  // External Bluesky replies live on other PDSes
+  if (options?.db && options.appViewClient) {
+    const externalReply = await options.db.getExternalReply(postUri)
+    if (externalReply) {
+      return options.appViewClient.getRecord(
+        atUri.host,
+        atUri.collection,
+        atUri.rkey,
+      )
+    }
+  }
+
+  return null
+}
+
+/**
+ * Parse an ActivityPub reply target URL to a Bluesky reply reference,
+ * inheriting the thread root from the parent post.
  */
 async function parseReplyTarget(
-  _ctx: unknown,
   replyTargetUrl: URL,
+  options?: ToRecordContext,
 ): Promise<ReplyRef | null> {
   try {
-    const urlPath = replyTargetUrl.pathname
-
-    // Extract AT URI from the path
-    // Format: /posts/at://did:xxx/collection/rkey
-    const atUriMatch = urlPath.match(/\/posts\/(at:\/\/[^/]+\/[^/]+\/[^/]+)/)
-    if (!atUriMatch) {
+    const parent = await fetchReferencedPost(replyTargetUrl, options)
+    if (!parent) {
       return null
     }
 
-    const atUri = atUriMatch[1]
-
-    // For now, we'll use the parent as both root and parent
-    // In a full implementation, we would fetch the parent to find the root
-    const parentRef = {
-      uri: atUri,
-      cid: '', // We would need to fetch this from the target post
-    }
+    const parentRef = { uri: parent.uri, cid: parent.cid }
+    const parentValue = parent.value as { reply?: ReplyRef }
 
-    // TODO: Fetch the actual root from the parent post's reply chain
-    // For now, use the same reference for both
     return {
-      root: parentRef,
+      root: parentValue.reply?.root ?? parentRef,
       parent: parentRef,
     }
   } catch {
@@ -411,10 +782,309 @@ async function parseReplyTarget(
   }
 }
 
-function plainTextToHtml(text: string): string {
-  const paragraphs = text.split('\n\n')
-  return paragraphs
-    .map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`)
+/**
+ * Collect the links of the note's Hashtag tags, which mark hashtag anchors
+ * of servers that don't use Mastodon's markup.
+ */
+async function extractHashtagHrefs(
+  object: Note | Question,
+): Promise<Set<string>> {
+  const hrefs = new Set<string>()
+  for await (const tag of object.getTags()) {
+    if (tag instanceof Hashtag && tag.href) {
+      hrefs.add(tag.href.href)
+    }
+  }
+  return hrefs
+}
+
+/**
+ * Map mentioned actor URLs to the addresses in the note's Mention tags,
+ * e.g. `@alice.bsky.social@bsky.brid.gy`.
+ */
+async function extractMentionNames(
+  object: Note | Question,
+): Promise<Map<string, string>> {
+  const names = new Map<string, string>()
+  for await (const tag of object.getTags()) {
+    if (tag instanceof Mention && tag.href && tag.name) {
+      names.set(tag.href.href, tag.name.toString())
+    }
+  }
+  return names
+}
+
+/**
+ * Find the URL of the object a Note quotes, from `quoteUrl` (which also
+ * covers Misskey's `_misskey_quote`) or a FEP-e232 object link tag.
+ */
+async function extractQuoteUrl(object: Note | Question): Promise<URL | null> {
+  if (object.quoteUrl) {
+    return object.quoteUrl
+  }
+
+  for await (const tag of object.getTags()) {
+    if (
+      tag instanceof Link &&
+      tag.href &&
+      tag.mediaType &&
+      AS2_MEDIA_TYPES.some((type) => tag.mediaType?.startsWith(type))
+    ) {
+      return tag.href
+    }
+  }
+
+  return null
+}
+
+/**
+ * Attach a quoted post to an embed, using `recordWithMedia` when the post
+ * already carries images or video.
+ */
+function buildQuoteEmbed(
+  quoted: { uri: string; cid: string },
+  media: Post['embed'],
+): Post['embed'] {
+  const record = { uri: quoted.uri, cid: quoted.cid }
+  if (media) {
+    return {
+      $type: 'app.bsky.embed.recordWithMedia',
+      record: { $type: 'app.bsky.embed.record', record },
+      media: media as EmbedRecordWithMedia['media'],
+    }
+  }
+  return { $type: 'app.bsky.embed.record', record }
+}
+
+/**
+ * Check the postgate of a quoted post before embedding it in a bridged note.
+ * Postgates of posts on other PDSes are fetched from the AppView.
+ */
+async function isEmbeddingAllowed(
+  postUri: string,
+  options?: ToRecordContext,
+): Promise<boolean> {
+  const did = new AtUri(postUri).host
+  const client =
+    options?.pdsClient && (await isLocalUser(options.pdsClient, did))
+      ? options.pdsClient
+      : options?.appViewClient
+  if (!client) {
+    return true
+  }
+  const postgate = await getPostgate(client, postUri).catch(() => null)
+  return postgateAllowsEmbedding(postgate)
+}
+
+/**
+ * Find the ActivityPub id of the post quoted by a record or recordWithMedia
+ * embed: our own object URL for local posts, the original note for bridged
+ * Fediverse posts, and the bsky.app URL for anything else. Quotes the
+ * quoted author detached with a postgate are left out.
+ */
+async function resolveQuoteTarget(
+  ctx: Context<void>,
+  pdsClient: PDSClient,
+  postUri: string,
+  embed: unknown,
+  options?: ToActivityPubContext,
+): Promise<URL | null> {
+  let quotedUri: string | undefined
+  if (isEmbedRecord(embed)) {
+    quotedUri = embed.record.uri
+  } else if (isEmbedRecordWithMedia(embed)) {
+    quotedUri = embed.record.record.uri
+  }
+  if (!quotedUri) {
+    return null
+  }
+
+  const atUri = new AtUri(quotedUri)
+  if (atUri.collection !== 'app.bsky.feed.post') {
+    return null
+  }
+
+  const isLocal = await isLocalUser(pdsClient, atUri.host)
+  const postgateClient = isLocal ? pdsClient : options?.appViewClient
+  if (postgateClient) {
+    const postgate = await getPostgate(postgateClient, quotedUri).catch(
+      () => null,
+    )
+    if (!postgateAllowsEmbedding(postgate, postUri)) {
+      return null
+    }
+  }
+
+  const mapping = await options?.db?.getPostMapping(quotedUri)
+  if (mapping) {
+    return new URL(mapping.apNoteId)
+  }
+
+  if (isLocal) {
+    return ctx.getObjectUri(Note, { uri: quotedUri })
+  }
+
+  return new URL(`https://bsky.app/profile/${atUri.host}/post/${atUri.rkey}`)
+}
+
+/**
+ * Get the link card of an external embed, including one attached as the
+ * media of a quote post.
+ */
+function getExternalEmbed(embed: unknown): EmbedExternal['external'] | null {
+  if (isEmbedExternal(embed)) {
+    return embed.external
+  }
+  if (isEmbedRecordWithMedia(embed) && isEmbedExternal(embed.media)) {
+    return embed.media.external
+  }
+  return null
+}
+
+/**
+ * Render a link card as HTML, so Fediverse software can show the link and
+ * generate its own preview card.
+ */
+function buildExternalCardHtml(external: EmbedExternal['external']): string {
+  const href = escapeHtml(external.uri)
+  const title = escapeHtml(external.title || external.uri)
+  const link = /^https?:\/\//i.test(external.uri)
+    ? `<a href="${href}">${title}</a>`
+    : title
+  const description = external.description
+    ? `<br>${escapeHtml(external.description)}`
+    : ''
+  return `<p>${link}${description}</p>`
+}
+
+/**
+ * Address a post publicly, unless it starts a thread whose threadgate
+ * restricts replies: those are unlisted or followers-only, depending on
+ * `threadgateVisibility`. Mentioned actors are always cc'd.
+ */
+async function getPostAddressing(
+  ctx: Context<void>,
+  pdsClient: PDSClient,
+  identifier: string,
+  postUri: string,
+  post: Post,
+  mentionedUris: URL[],
+  options?: ToActivityPubContext,
+): Promise<{ tos: URL[]; ccs: URL[] }> {
+  const followersUri = ctx.getFollowersUri(identifier)
+  const visibility = options?.threadgateVisibility
+  if (!visibility || post.reply) {
+    return { tos: [PUBLIC_COLLECTION], ccs: [followersUri, ...mentionedUris] }
+  }
+
+  // Fall back to public addressing when the threadgate can't be fetched
+  const threadgate = await getThreadgate(pdsClient, postUri).catch(() => null)
+  if (!restrictsReplies(threadgate)) {
+    return { tos: [PUBLIC_COLLECTION], ccs: [followersUri, ...mentionedUris] }
+  }
+
+  return {
+    tos: [followersUri],
+    ccs:
+      visibility === 'unlisted'
+        ? [PUBLIC_COLLECTION, ...mentionedUris]
+        : mentionedUris,
+  }
+}
+
+function getTagUrl(ctx: Context<void>, tag: string): URL {
+  return new URL(`/tags/${encodeURIComponent(tag)}`, ctx.canonicalOrigin)
+}
+
+/**
+ * Find where a mentioned Bluesky user can be reached from the Fediverse.
+ * Local users have an actor here; other users are resolved to a handle and
+ * use their Bridgy Fed actor when bridged, or their bsky.app profile. As
+ * that takes requests to other servers, those results are cached.
+ */
+async function resolveMentionTarget(
+  ctx: Context<void>,
+  pdsClient: PDSClient,
+  did: string,
+  options?: ToActivityPubContext,
+): Promise<MentionTarget | null> {
+  if (await isLocalUser(pdsClient, did)) {
+    const actor = ctx.getActorUri(did)
+    return { href: actor, actor }
+  }
+
+  return resolveRemoteMentionTarget(ctx, did, options)
+}
+
+/**
+ * Find where a Bluesky user on another PDS can be reached from the
+ * Fediverse, through the `mentionTargets` cache when one is given.
+ */
+export async function resolveRemoteMentionTarget(
+  ctx: Context<void>,
+  did: string,
+  options?: ToActivityPubContext,
+): Promise<MentionTarget | null> {
+  const load = () => lookupRemoteMentionTarget(ctx, did, options)
+  return options?.mentionTargets
+    ? options.mentionTargets.get(did, load)
+    : load()
+}
+
+async function lookupRemoteMentionTarget(
+  ctx: Context<void>,
+  did: string,
+  options?: ToActivityPubContext,
+): Promise<MentionTarget | null> {
+  const handle = await options?.appViewClient?.getHandle(did)
+  if (!handle) {
+    return null
+  }
+
+  const bridgyFedActor = await lookupBridgyFedActor(ctx, handle)
+  if (bridgyFedActor) {
+    return {
+      href: bridgyFedActor,
+      actor: bridgyFedActor,
+      name: `@${handle}@${BRIDGY_FED_BSKY_HOST}`,
+    }
+  }
+
+  return { href: new URL(`https://bsky.app/profile/${handle}`) }
+}
+
+/**
+ * Render post text as HTML paragraphs, with mentions and hashtags linked in
+ * the markup Mastodon uses for its own posts.
+ */
+function richTextToHtml(
+  ctx: Context<void>,
+  text: string,
+  facets: Facet[],
+  mentionTargets: Map<string, MentionTarget | null>,
+): string {
+  const richText = new RichText({ text, facets })
+  let html = ''
+  for (const segment of richText.segments()) {
+    const tag = segment.tag?.tag
+    const mentionTarget = segment.mention
+      ? mentionTargets.get(segment.mention.did)
+      : null
+    if (mentionTarget) {
+      const href = escapeHtml(mentionTarget.href.href)
+      const label = escapeHtml(segment.text.replace(/^@/, ''))
+      html += `<span class="h-card"><a href="${href}" class="u-url mention">@<span>${label}</span></a></span>`
+    } else if (tag) {
+      const href = escapeHtml(getTagUrl(ctx, tag).href)
+      const label = escapeHtml(segment.text.replace(/^#/, ''))
+      html += `<a href="${href}" class="mention hashtag" rel="tag">#<span>${label}</span></a>`
+    } else {
+      html += escapeHtml(segment.text)
+    }
+  }
+  return html
+    .split('\n\n')
+    .map((paragraph) => `<p>${paragraph}</p>`)
     .join('\n')
 }
 
@@ -429,6 +1099,26 @@ function buildAttachmentsFromEmbed(
     return attachments
   }
 
+  if (isEmbedRecordWithMedia(embed)) {
+    return buildAttachmentsFromEmbed(pdsClient, identifier, embed.media)
+  }
+
+  // Link card thumbnails are attached as images, the card itself is
+  // rendered into the content
+  if (isEmbedExternal(embed) && embed.external.thumb) {
+    const blobRef = BlobRef.asBlobRef(embed.external.thumb)
+    if (blobRef) {
+      const url = pdsClient.getBlobUrl(identifier, blobRef.ref.toString())
+      attachments.push(
+        new Document({
+          url: new URL(url),
+          mediaType: blobRef.mimeType,
+          name: embed.external.title || embed.external.uri,
+        }),
+      )
+    }
+  }
+
   if (isEmbedImages(embed)) {
     for (const img of embed.images) {
       const blobRef = BlobRef.asBlobRef(
@@ -472,7 +1162,7 @@ function buildLinkFacets(text: string, links: CollectedLink[]): Facet[] {
   let searchFromIndex = 0
 
   for (const link of links) {
-    if (link.isMention) {
+    if (link.isMention || link.isHashtag) {
       continue
     }
 
@@ -503,6 +1193,45 @@ function buildLinkFacets(text: string, links: CollectedLink[]): Facet[] {
   return facets
 }
 
+// Bluesky tags are limited to 64 graphemes, without the leading '#'
+const MAX_TAG_GRAPHEMES = 64
+
+function buildTagFacets(text: string, links: CollectedLink[]): Facet[] {
+  const richText = new RichText({ text })
+  const facets: Facet[] = []
+  let searchFromIndex = 0
+
+  for (const link of links) {
+    if (!link.isHashtag) {
+      continue
+    }
+
+    const tag = link.textContent.replace(/^#/, '').trim()
+    if (!tag || countGraphemes(tag) > MAX_TAG_GRAPHEMES) {
+      continue
+    }
+
+    const foundIndex = text.indexOf(link.textContent, searchFromIndex)
+    if (foundIndex === -1) {
+      continue
+    }
+
+    facets.push({
+      index: {
+        byteStart: richText.unicodeText.utf16IndexToUtf8Index(foundIndex),
+        byteEnd: richText.unicodeText.utf16IndexToUtf8Index(
+          foundIndex + link.textContent.length,
+        ),
+      },
+      features: [{ $type: 'app.bsky.richtext.facet#tag', tag }],
+    })
+
+    searchFromIndex = foundIndex + link.textContent.length
+  }
+
+  return facets
+}
+
 /**
  * Parse an ActivityPub actor URL to extract the DID.
  * Our bridge uses URLs in the format: https://hostname/users/{did}
@@ -524,17 +1253,48 @@ function extractDidFromActorUrl(actorUrl: string): string | null {
   }
 }
 
+/**
+ * Find the DID of a mentioned actor: a local PDS user addressed through our
+ * own actor URL, or a Bluesky user addressed through Bridgy Fed.
+ */
+async function resolveMentionedDid(
+  href: string,
+  name: string | undefined,
+  options?: ToRecordContext,
+): Promise<string | null> {
+  const localDid = extractDidFromActorUrl(href)
+  if (localDid) {
+    return options?.pdsClient &&
+      (await isLocalUser(options.pdsClient, localDid))
+      ? localDid
+      : null
+  }
+
+  const bridgyFedDid = getBridgyFedDid(href)
+  if (bridgyFedDid) {
+    return bridgyFedDid
+  }
+
+  const handle = name ? getBridgyFedHandle(name) : null
+  if (handle && options?.appViewClient) {
+    return options.appViewClient.resolveHandle(handle)
+  }
+  return null
+}
+
 /**
  * Build ATProto mention facets from collected links that are mentions.
- * Only creates facets for mentions that resolve to local PDS users.
+ * Only creates facets for mentions that resolve to local PDS users or to
+ * Bluesky users bridged by Bridgy Fed.
  */
 async function buildMentionFacetsFromLinks(
   text: string,
   links: Array<{ href: string; textContent: string; isMention: boolean }>,
-  pdsClient?: PDSClient,
+  mentionNames: Map<string, string>,
+  options?: ToRecordContext,
 ): Promise<Facet[]> {
   const mentions = links.filter((link) => link.isMention)
-  if (!pdsClient || mentions.length === 0) {
+  if (mentions.length === 0) {
     return []
   }
 
@@ -543,15 +1303,15 @@ async function buildMentionFacetsFromLinks(
   let searchFromIndex = 0
 
   for (const mention of mentions) {
-    const did = extractDidFromActorUrl(mention.href)
+    const did = await resolveMentionedDid(
+      mention.href,
+      mentionNames.get(mention.href),
+      options,
+    )
     if (!did) {
       continue
     }
 
-    if (!(await isLocalUser(pdsClient, did))) {
-      continue
-    }
-
     const foundIndex = text.indexOf(mention.textContent, searchFromIndex)
     if (foundIndex === -1) {
       continue
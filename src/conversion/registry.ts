@@ -1,8 +1,11 @@
 import { BlobRef } from '@atproto/api'
 import type { Context } from '@fedify/fedify'
 import type { Activity, Object as APObject } from '@fedify/vocab'
+import type { AppViewClient, EngagementCountCache } from '../appview-client'
+import type { ThreadgateVisibility } from '../config'
 import type { APDatabase } from '../db'
 import { PDSClient } from '../pds-client'
+import type { TtlCache } from './util/ttl-cache'
 
 export type BlobUploader = (
   data: Uint8Array,
@@ -12,10 +15,44 @@ export type BlobUploader = (
 export interface ToRecordContext {
   pdsClient?: PDSClient
   uploadBlob?: BlobUploader
+  /** Used to resolve reply targets that are bridged Fediverse notes */
+  db?: APDatabase
+  /** Used to fetch reply targets that live outside the local PDS */
+  appViewClient?: AppViewClient
+  /** Fetch OpenGraph link cards for notes without media */
+  fetchLinkPreviews?: boolean
+  allowPrivateAddress?: boolean
+}
+
+/** Where a mentioned Bluesky user can be reached from the Fediverse */
+export interface MentionTarget {
+  /** Link for the mention in Note content */
+  href: URL
+  /** ActivityPub actor to tag and address, if the user has one */
+  actor?: URL
+  /** Fediverse address to use as the Mention name */
+  name?: string
 }
 
 export interface ToActivityPubContext {
   db?: APDatabase
+  /** Used to resolve handles of mentioned users on other PDSes */
+  appViewClient?: AppViewClient
+  /** Resolved mentions of users on other PDSes, by DID */
+  mentionTargets?: TtlCache<MentionTarget | null>
+  /** Addressing of posts whose threadgate restricts replies */
+  threadgateVisibility?: ThreadgateVisibility
+  /** Bluesky like and repost counts, added to the Fediverse ones */
+  engagementCounts?: EngagementCountCache
+}
+
+/** An inbound activity, e.g. a Like, that engages with a local post */
+export interface InboundEngagement {
+  activityId: string
+  apActorId: string
+  postAtUri: string
+  postAuthorDid: string
+  createdAt: string
 }
 
 export interface RecordConverter<
@@ -43,21 +80,102 @@ export interface RecordConverter<
     options?: ToRecordContext,
   ): Promise<{ uri: string; cid: string; value: T } | null>
 
+  /** Inbound object types the converter turns into records */
   objectTypes?: Array<typeof APObject>
+
+  /**
+   * Activity types the converter sends for its records, and receives for
+   * local posts when `storeEngagement` is defined
+   */
+  activityTypes?: Array<typeof Activity>
+
+  /**
+   * Map an inbound object of one of `objectTypes` to the object `toRecord`
+   * takes, e.g. an Article to a Note. Objects are passed on as they are
+   * when this is not defined.
+   */
+  fromObject?(object: APObject): Promise<TObject | null>
+
+  /** Store an inbound activity of one of `activityTypes` */
+  storeEngagement?(db: APDatabase, engagement: InboundEngagement): Promise<void>
+}
+
+/**
+ * Find the entry for a type in an index by class, walking up the prototype
+ * chain so subclasses of a registered type resolve to the same entry.
+ */
+function findByType<T>(
+  index: Map<unknown, T>,
+  object: APObject,
+): T | undefined {
+  let type: unknown = object.constructor
+  while (type) {
+    const entry = index.get(type)
+    if (entry) {
+      return entry
+    }
+    type = Object.getPrototypeOf(type)
+  }
+  return undefined
 }
 
 export class RecordConverterRegistry {
   private converters = new Map<string, RecordConverter>()
+  private objectTypeIndex = new Map<typeof APObject, RecordConverter>()
+  private activityTypeIndex = new Map<typeof Activity, RecordConverter>()
 
   register(converter: RecordConverter): void {
     this.converters.set(converter.collection, converter)
+    for (const type of converter.objectTypes ?? []) {
+      this.objectTypeIndex.set(type, converter)
+    }
+    for (const type of converter.activityTypes ?? []) {
+      this.activityTypeIndex.set(type, converter)
+    }
   }
 
   get(collection: string): RecordConverter | undefined {
     return this.converters.get(collection)
   }
 
+  /**
+   * Find the converter that takes inbound objects of this type. Subclasses
+   * of a registered type, e.g. of Note, resolve to the same converter.
+   */
+  getByObjectType(object: APObject): RecordConverter | undefined {
+    return findByType(this.objectTypeIndex, object)
+  }
+
+  /** Find the converter for an activity by its type */
+  getByActivityType(activity: Activity): RecordConverter | undefined {
+    return findByType(this.activityTypeIndex, activity)
+  }
+
+  /** Activity types whose inbound activities a converter stores */
+  getEngagementTypes(): Array<typeof Activity> {
+    return Array.from(this.activityTypeIndex)
+      .filter(([, converter]) => converter.storeEngagement)
+      .map(([type]) => type)
+  }
+
   getAll(): RecordConverter[] {
     return Array.from(this.converters.values())
   }
+
+  /**
+   * Find the converter that takes inbound objects of this type and map the
+   * object for it. Returns null when no converter accepts the type.
+   */
+  async fromObject(
+    object: APObject,
+  ): Promise<{ converter: RecordConverter; object: APObject } | null> {
+    const converter = this.getByObjectType(object)
+    if (!converter) {
+      return null
+    }
+    const mapped = converter.fromObject
+      ? await converter.fromObject(object)
+      : object
+    return mapped ? { converter, object: mapped } : null
+  }
 }
@@ -7,6 +7,7 @@ import { isLocalUser } from './util/is-local-user'
 
 export const repostConverter: RecordConverter<Repost, Note> = {
   collection: 'app.bsky.feed.repost',
+  activityTypes: [Announce],
 
   async toActivityPub(ctx, identifier, record, pdsClient, _options) {
     const repost = record.value
@@ -49,4 +50,8 @@ export const repostConverter: RecordConverter<Repost, Note> = {
   async toRecord() {
     return null
   },
+
+  async storeEngagement(db, engagement) {
+    await db.createRepost(engagement)
+  },
 }
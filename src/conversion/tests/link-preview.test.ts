@@ -0,0 +1,194 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { BlobRef } from '@atproto/lexicon'
+import { CID } from 'multiformats/cid'
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import {
+  buildExternalEmbed,
+  fetchLinkPreview,
+  parseLinkPreview,
+} from '../util/link-preview'
+
+const ARTICLE_HTML = `<!doctype html>
+<html>
+  <head>
+    <title>Fallback title</title>
+    <meta property="og:title" content="Tom &amp; Jerry">
+    <meta property="og:description" content='A "classic" cartoon'>
+    <meta property="og:image" content="/thumb.png">
+  </head>
+  <body><p>Hello</p></body>
+</html>`
+
+function articleWithImage(image: string) {
+  return ARTICLE_HTML.replace('/thumb.png', image)
+}
+
+const PNG_BYTES = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64',
+)
+
+describe('link-preview', () => {
+  let server: http.Server
+  let baseUrl: string
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      switch (req.url) {
+        case '/article':
+          res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' })
+          res.end(ARTICLE_HTML)
+          return
+        case '/redirect':
+          res.writeHead(301, { location: '/article' })
+          res.end()
+          return
+        case '/thumb.png':
+          res.writeHead(200, { 'content-type': 'image/png' })
+          res.end(PNG_BYTES)
+          return
+        case '/article-large-image':
+          res.writeHead(200, { 'content-type': 'text/html' })
+          res.end(articleWithImage('/large.png'))
+          return
+        case '/article-html-image':
+          res.writeHead(200, { 'content-type': 'text/html' })
+          res.end(articleWithImage('/article'))
+          return
+        case '/article-redirected-image':
+          res.writeHead(200, { 'content-type': 'text/html' })
+          res.end(articleWithImage('/image-redirect'))
+          return
+        case '/large.png':
+          res.writeHead(200, {
+            'content-type': 'image/png',
+            'content-length': String(2 * 1024 * 1024),
+          })
+          res.end()
+          return
+        case '/image-redirect':
+          res.writeHead(302, { location: 'file:///etc/passwd' })
+          res.end()
+          return
+        case '/data.json':
+          res.writeHead(200, { 'content-type': 'application/json' })
+          res.end('{}')
+          return
+        default:
+          res.writeHead(404)
+          res.end()
+      }
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    baseUrl = `http://127.0.0.1:${port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  describe('parseLinkPreview', () => {
+    it('should fall back to the page title and meta description', () => {
+      const preview = parseLinkPreview(
+        '<title>Plain page</title><meta name="description" content="About it">',
+        'https://example.com/page',
+      )
+      expect(preview).toEqual({
+        title: 'Plain page',
+        description: 'About it',
+        imageUrl: undefined,
+      })
+    })
+
+    it('should return null for pages without a title', () => {
+      expect(parseLinkPreview('<p>nothing</p>', 'https://example.com')).toBe(
+        null,
+      )
+    })
+  })
+
+  describe('fetchLinkPreview', () => {
+    it('should read OpenGraph metadata from the page', async () => {
+      const preview = await fetchLinkPreview(`${baseUrl}/article`, {
+        allowPrivateAddress: true,
+      })
+
+      expect(preview).toEqual({
+        title: 'Tom & Jerry',
+        description: 'A "classic" cartoon',
+        imageUrl: `${baseUrl}/thumb.png`,
+      })
+    })
+
+    it('should follow redirects', async () => {
+      const preview = await fetchLinkPreview(`${baseUrl}/redirect`, {
+        allowPrivateAddress: true,
+      })
+      expect(preview?.title).toBe('Tom & Jerry')
+    })
+
+    it('should ignore non-HTML responses', async () => {
+      const preview = await fetchLinkPreview(`${baseUrl}/data.json`, {
+        allowPrivateAddress: true,
+      })
+      expect(preview).toBeNull()
+    })
+
+    it('should refuse private addresses unless allowed', async () => {
+      const preview = await fetchLinkPreview(`${baseUrl}/article`)
+      expect(preview).toBeNull()
+    })
+  })
+
+  describe('buildExternalEmbed', () => {
+    it('should build an external embed with an uploaded thumbnail', async () => {
+      const blobRef = new BlobRef(
+        CID.parse(
+          'bafkreihrn6b2blc3jk34cvmqyolxc27i4c567s57d5r2k4d2z3fpfsfdqa',
+        ),
+        'image/png',
+        PNG_BYTES.byteLength,
+      )
+      const uploadBlob = vi.fn().mockResolvedValue(blobRef)
+
+      const embed = await buildExternalEmbed(uploadBlob, `${baseUrl}/article`, {
+        allowPrivateAddress: true,
+      })
+
+      expect(uploadBlob).toHaveBeenCalledWith(
+        expect.any(Uint8Array),
+        'image/png',
+      )
+      expect(embed).toEqual({
+        $type: 'app.bsky.embed.external',
+        external: {
+          uri: `${baseUrl}/article`,
+          title: 'Tom & Jerry',
+          description: 'A "classic" cartoon',
+          thumb: blobRef,
+        },
+      })
+    })
+
+    it.each([
+      ['too large', '/article-large-image'],
+      ['not an image', '/article-html-image'],
+      ['redirected to an invalid URL', '/article-redirected-image'],
+    ])('should not upload a thumbnail that is %s', async (_reason, path) => {
+      const uploadBlob = vi.fn()
+
+      const embed = await buildExternalEmbed(uploadBlob, `${baseUrl}${path}`, {
+        allowPrivateAddress: true,
+      })
+
+      expect(uploadBlob).not.toHaveBeenCalled()
+      expect(embed?.external).toEqual({
+        uri: `${baseUrl}${path}`,
+        title: 'Tom & Jerry',
+        description: 'A "classic" cartoon',
+      })
+    })
+  })
+})
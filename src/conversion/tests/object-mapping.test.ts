@@ -0,0 +1,167 @@
+import {
+  Article,
+  Document,
+  Image,
+  Hashtag,
+  Link,
+  Mention,
+  Note,
+  Page,
+  PUBLIC_COLLECTION,
+  Question,
+  Video,
+} from '@fedify/vocab'
+import { describe, it, expect } from 'vitest'
+import { articleToNote, mediaToNote } from '../util/object-mapping'
+import { questionToNote } from '../util/poll'
+
+const replyTarget = new URL(
+  'https://ap.example/posts/at://did:plc:alice123/app.bsky.feed.post/1',
+)
+
+describe('object-mapping', () => {
+  describe('articleToNote', () => {
+    it('should summarize an article with its title, summary and link', async () => {
+      const note = await articleToNote(
+        new Article({
+          id: new URL('https://blog.example/api/posts/1'),
+          to: PUBLIC_COLLECTION,
+          name: 'On <bridges>',
+          summary: 'Why bridges matter',
+          content: '<p>A very long article…</p>',
+          url: new URL('https://blog.example/bob/on-bridges'),
+          replyTarget,
+        }),
+      )
+
+      const content = note.content?.toString()
+      expect(content).toContain('<p>On &lt;bridges&gt;</p>')
+      expect(content).toContain('<p>Why bridges matter</p>')
+      expect(content).toContain('href="https://blog.example/bob/on-bridges"')
+      expect(content).not.toContain('A very long article')
+      expect(note.replyTargetId).toEqual(replyTarget)
+      expect(note.toIds).toEqual([PUBLIC_COLLECTION])
+    })
+
+    it('should link a page to its id when it has no url', async () => {
+      const note = await articleToNote(
+        new Page({
+          id: new URL('https://lemmy.example/post/7'),
+          name: 'A Lemmy post',
+        }),
+      )
+
+      expect(note.content?.toString()).toContain(
+        'href="https://lemmy.example/post/7"',
+      )
+    })
+  })
+
+  describe('mediaToNote', () => {
+    it('should attach the video file and link the video page', async () => {
+      const note = await mediaToNote(
+        new Video({
+          id: new URL('https://tube.example/videos/watch/abc'),
+          name: 'My video',
+          content: '<p>Description</p>',
+          urls: [
+            new Link({
+              href: new URL('https://tube.example/w/abc'),
+              mediaType: 'text/html',
+            }),
+            new Link({
+              href: new URL('https://tube.example/static/abc-720.mp4'),
+              mediaType: 'video/mp4',
+            }),
+          ],
+          replyTarget,
+        }),
+      )
+
+      const content = note.content?.toString()
+      expect(content).toContain('<p>My video</p><p>Description</p>')
+      expect(content).toContain('href="https://tube.example/w/abc"')
+
+      const attachments: unknown[] = []
+      for await (const attachment of note.getAttachments()) {
+        attachments.push(attachment)
+      }
+      expect(attachments).toHaveLength(1)
+      expect(attachments[0]).toBeInstanceOf(Document)
+      const video = attachments[0] as Document
+      expect(video.url).toEqual(
+        new URL('https://tube.example/static/abc-720.mp4'),
+      )
+      expect(video.mediaType).toBe('video/mp4')
+    })
+
+    it('should attach an image with its own media type', async () => {
+      const note = await mediaToNote(
+        new Image({
+          id: new URL('https://photos.example/p/1'),
+          url: new URL('https://photos.example/media/1.jpg'),
+          mediaType: 'image/jpeg',
+          summary: 'A sunset',
+        }),
+      )
+
+      const attachments: Document[] = []
+      for await (const attachment of note.getAttachments()) {
+        attachments.push(attachment as Document)
+      }
+      expect(attachments[0].url).toEqual(
+        new URL('https://photos.example/media/1.jpg'),
+      )
+      expect(attachments[0].name?.toString()).toBe('A sunset')
+    })
+  })
+
+  describe('questionToNote', () => {
+    it('should keep the tags and attachments of a question', async () => {
+      const note = await questionToNote(
+        new Question({
+          id: new URL('https://remote.example/polls/1'),
+          content: '<p>@alice Pick one #lunch</p>',
+          exclusiveOptions: [
+            new Note({ name: 'Pizza' }),
+            new Note({ name: 'Sushi' }),
+          ],
+          tags: [
+            new Mention({
+              href: new URL('https://ap.example/users/did:plc:alice123'),
+              name: '@alice@ap.example',
+            }),
+            new Hashtag({
+              href: new URL('https://remote.example/tags/lunch'),
+              name: '#lunch',
+            }),
+          ],
+          attachments: [
+            new Document({
+              url: new URL('https://remote.example/media/menu.png'),
+              mediaType: 'image/png',
+            }),
+          ],
+        }),
+      )
+
+      const tags: object[] = []
+      for await (const tag of note.getTags()) {
+        tags.push(tag)
+      }
+      expect(tags.map((tag) => tag.constructor)).toEqual([Mention, Hashtag])
+      expect((tags[0] as Mention).href).toEqual(
+        new URL('https://ap.example/users/did:plc:alice123'),
+      )
+
+      const attachments: Document[] = []
+      for await (const attachment of note.getAttachments()) {
+        attachments.push(attachment as Document)
+      }
+      expect(attachments).toHaveLength(1)
+      expect(attachments[0].url).toEqual(
+        new URL('https://remote.example/media/menu.png'),
+      )
+    })
+  })
+})
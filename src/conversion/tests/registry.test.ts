@@ -0,0 +1,98 @@
+import {
+  Announce,
+  Create,
+  Document,
+  Flag,
+  Like,
+  Note,
+  Page,
+  Question,
+} from '@fedify/vocab'
+import { describe, it, expect } from 'vitest'
+import { likeConverter } from '../like'
+import { postConverter } from '../post'
+import { RecordConverterRegistry } from '../registry'
+import { repostConverter } from '../repost'
+
+describe('RecordConverterRegistry', () => {
+  const registry = new RecordConverterRegistry()
+  registry.register(postConverter)
+  registry.register(likeConverter)
+  registry.register(repostConverter)
+
+  describe('getByObjectType', () => {
+    it('should find converters by object type', () => {
+      expect(registry.getByObjectType(new Note({}))).toBe(postConverter)
+      expect(registry.getByObjectType(new Question({}))).toBe(postConverter)
+    })
+
+    it('should find the converter of a subclass of a registered type', () => {
+      class ChatMessage extends Note {}
+      expect(registry.getByObjectType(new ChatMessage({}))).toBe(postConverter)
+    })
+
+    it('should return undefined for unregistered types', () => {
+      expect(registry.getByObjectType(new Document({}))).toBeUndefined()
+    })
+
+    it('should not find converters by activity type', () => {
+      expect(registry.getByObjectType(new Like({}))).toBeUndefined()
+    })
+  })
+
+  describe('getByActivityType', () => {
+    it('should find converters by activity type', () => {
+      expect(registry.getByActivityType(new Like({}))).toBe(likeConverter)
+      expect(registry.getByActivityType(new Announce({}))).toBe(repostConverter)
+    })
+
+    it('should return undefined for unregistered types', () => {
+      expect(registry.getByActivityType(new Create({}))).toBeUndefined()
+    })
+  })
+
+  describe('getEngagementTypes', () => {
+    it('should list the activity types converters store', () => {
+      expect(registry.getEngagementTypes()).toEqual([Like, Announce])
+    })
+
+    it('should pick up the types of newly registered converters', () => {
+      const custom = new RecordConverterRegistry()
+      custom.register({
+        collection: 'app.example.flag',
+        activityTypes: [Flag],
+        toActivityPub: async () => null,
+        toRecord: async () => null,
+        storeEngagement: async () => {},
+      })
+
+      expect(custom.getEngagementTypes()).toEqual([Flag])
+      expect(custom.getByActivityType(new Flag({}))?.collection).toBe(
+        'app.example.flag',
+      )
+    })
+  })
+
+  describe('fromObject', () => {
+    it('should map inbound objects for the converter of their type', async () => {
+      const result = await registry.fromObject(
+        new Page({ id: new URL('https://lemmy.example/post/7'), name: 'Hi' }),
+      )
+
+      expect(result?.converter).toBe(postConverter)
+      expect(result?.object).toBeInstanceOf(Note)
+    })
+
+    it('should return null for types no converter takes', async () => {
+      const result = await registry.fromObject(
+        new Document({ id: new URL('https://remote.example/doc/1') }),
+      )
+
+      expect(result).toBeNull()
+    })
+
+    it('should not take activities as inbound objects', async () => {
+      expect(await registry.fromObject(new Like({}))).toBeNull()
+    })
+  })
+})
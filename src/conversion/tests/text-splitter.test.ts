@@ -0,0 +1,136 @@
+import type { Main as Post } from '@atproto/api/dist/client/types/app/bsky/feed/post'
+import { describe, it, expect } from 'vitest'
+import { splitPostRecord } from '../post'
+import {
+  countGraphemes,
+  splitRichText,
+  truncateRichText,
+} from '../util/text-splitter'
+
+function linkFacet(byteStart: number, byteEnd: number, uri: string) {
+  return {
+    index: { byteStart, byteEnd },
+    features: [{ $type: 'app.bsky.richtext.facet#link', uri }],
+  }
+}
+
+describe('text-splitter', () => {
+  describe('splitRichText', () => {
+    it('should return short text as a single chunk', () => {
+      const chunks = splitRichText('Hello world')
+      expect(chunks).toEqual([{ text: 'Hello world', facets: [] }])
+    })
+
+    it('should split on whitespace within the grapheme limit', () => {
+      const text = 'word '.repeat(100).trim()
+      const chunks = splitRichText(text, [], { maxGraphemes: 50 })
+
+      expect(chunks.length).toBeGreaterThan(1)
+      for (const chunk of chunks) {
+        expect(countGraphemes(chunk.text)).toBeLessThanOrEqual(50)
+        expect(chunk.text).toMatch(/^word( word)*$/)
+      }
+      expect(chunks.map((chunk) => chunk.text).join(' ')).toBe(text)
+    })
+
+    it('should count emoji sequences as single graphemes', () => {
+      const family = '👨‍👩‍👧‍👦'
+      const text = `${family} `.repeat(20).trim()
+      const chunks = splitRichText(text, [], { maxGraphemes: 10 })
+
+      for (const chunk of chunks) {
+        expect(countGraphemes(chunk.text)).toBeLessThanOrEqual(10)
+        expect(chunk.text.split(' ').every((part) => part === family)).toBe(
+          true,
+        )
+      }
+    })
+
+    it('should respect the byte limit for multibyte text', () => {
+      const text = '日本語の文章 '.repeat(40)
+      const chunks = splitRichText(text, [], { maxBytes: 100 })
+
+      for (const chunk of chunks) {
+        expect(Buffer.byteLength(chunk.text, 'utf8')).toBeLessThanOrEqual(100)
+      }
+    })
+
+    it('should re-index facets relative to their chunk', () => {
+      const prefix = 'a '.repeat(30)
+      const text = `${prefix}see https://example.com`
+      const start = Buffer.byteLength(`${prefix}see `, 'utf8')
+      const facet = linkFacet(
+        start,
+        start + 'https://example.com'.length,
+        'https://example.com',
+      )
+
+      const chunks = splitRichText(text, [facet], { maxGraphemes: 40 })
+      const last = chunks[chunks.length - 1]
+      const [moved] = last.facets
+
+      const bytes = Buffer.from(last.text, 'utf8')
+      expect(
+        bytes
+          .subarray(moved.index.byteStart, moved.index.byteEnd)
+          .toString('utf8'),
+      ).toBe('https://example.com')
+    })
+
+    it('should not break inside a facet', () => {
+      const text = 'hello big wide world'
+      const facet = linkFacet(6, 14, 'https://example.com')
+      const chunks = splitRichText(text, [facet], { maxGraphemes: 12 })
+
+      expect(chunks[0].text).toBe('hello')
+      expect(chunks[1].text).toBe('big wide')
+      expect(chunks[1].facets[0].index).toEqual({ byteStart: 0, byteEnd: 8 })
+    })
+  })
+
+  describe('truncateRichText', () => {
+    it('should leave text that fits unchanged', () => {
+      const result = truncateRichText('short', [], { text: '…', facets: [] })
+      expect(result.text).toBe('short')
+    })
+
+    it('should cut on a word boundary and append the suffix', () => {
+      const result = truncateRichText(
+        'one two three four',
+        [],
+        { text: '…', facets: [] },
+        { maxGraphemes: 10 },
+      )
+      expect(result.text).toBe('one two…')
+    })
+  })
+
+  describe('splitPostRecord', () => {
+    it('should keep the embed and reply on the first record only', () => {
+      const record: Post = {
+        $type: 'app.bsky.feed.post',
+        text: 'word '.repeat(100).trim(),
+        createdAt: '2026-01-01T00:00:00.000Z',
+        langs: ['en'],
+        reply: {
+          root: { uri: 'at://did:plc:a/app.bsky.feed.post/1', cid: 'bafy1' },
+          parent: { uri: 'at://did:plc:a/app.bsky.feed.post/1', cid: 'bafy1' },
+        },
+        embed: {
+          $type: 'app.bsky.embed.external',
+          external: { uri: 'https://example.com', title: '', description: '' },
+        },
+      }
+
+      const records = splitPostRecord(record)
+
+      expect(records).toHaveLength(2)
+      expect(records[0].reply).toEqual(record.reply)
+      expect(records[0].embed).toEqual(record.embed)
+      expect(records[1].reply).toBeUndefined()
+      expect(records[1].embed).toBeUndefined()
+      expect(records[1].langs).toEqual(['en'])
+      expect(records[1].createdAt).toBe(record.createdAt)
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { TtlCache } from '../util/ttl-cache'
+
+describe('TtlCache', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should load a key once within the TTL', async () => {
+    const cache = new TtlCache<string | null>(60_000)
+    const load = vi.fn().mockResolvedValue('carol.bsky.social')
+
+    const [first, second] = await Promise.all([
+      cache.get('did:plc:carol', load),
+      cache.get('did:plc:carol', load),
+    ])
+
+    expect(first).toBe('carol.bsky.social')
+    expect(second).toBe('carol.bsky.social')
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  it('should cache null results', async () => {
+    const cache = new TtlCache<string | null>(60_000)
+    const load = vi.fn().mockResolvedValue(null)
+
+    await cache.get('did:plc:carol', load)
+    expect(await cache.get('did:plc:carol', load)).toBeNull()
+
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  it('should load a key again once it expires', async () => {
+    vi.useFakeTimers()
+    const cache = new TtlCache<string>(60_000)
+    const load = vi.fn().mockResolvedValue('value')
+
+    await cache.get('key', load)
+    vi.advanceTimersByTime(60_001)
+    await cache.get('key', load)
+
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not cache failed lookups', async () => {
+    const cache = new TtlCache<string>(60_000)
+    const load = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('down'))
+      .mockResolvedValue('value')
+
+    await expect(cache.get('key', load)).rejects.toThrow('down')
+    expect(await cache.get('key', load)).toBe('value')
+  })
+
+  it('should evict the oldest key when full', async () => {
+    const cache = new TtlCache<string>(60_000, 2)
+    const load = vi.fn(async () => 'value')
+
+    await cache.get('a', load)
+    await cache.get('b', load)
+    await cache.get('c', load)
+    await cache.get('a', load)
+
+    expect(load).toHaveBeenCalledTimes(4)
+  })
+})
@@ -38,7 +38,11 @@ function isPrivateIP(hostname: string): boolean {
   return false
 }
 
-function validateBlobUrl(url: string, allowPrivate: boolean): void {
+/**
+ * Reject URLs that are not http(s) or that point at private network
+ * addresses, to avoid SSRF when fetching remote content.
+ */
+export function validateBlobUrl(url: string, allowPrivate: boolean): void {
   const parsed = new URL(url)
   if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
     throw new Error(`Invalid URL scheme: ${parsed.protocol}`)
@@ -0,0 +1,57 @@
+import type { Context } from '@fedify/fedify'
+
+// Bridgy Fed serves Bluesky accounts that opted in as ActivityPub actors
+// at https://bsky.brid.gy/ap/{did}, addressed as @{handle}@bsky.brid.gy
+export const BRIDGY_FED_BSKY_HOST = 'bsky.brid.gy'
+
+/**
+ * Get the DID of the Bluesky account behind a Bridgy Fed actor URL.
+ */
+export function getBridgyFedDid(actorUrl: string): string | null {
+  try {
+    const url = new URL(actorUrl)
+    if (url.hostname !== BRIDGY_FED_BSKY_HOST) {
+      return null
+    }
+    const match = url.pathname.match(/^\/ap\/(did:[a-z]+:[^/]+)$/)
+    return match ? decodeURIComponent(match[1]) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Get the Bluesky handle from a `@handle@bsky.brid.gy` address.
+ */
+export function getBridgyFedHandle(address: string): string | null {
+  const match = address.match(/^@?([^@\s]+)@([^@\s]+)$/)
+  if (!match || match[2].toLowerCase() !== BRIDGY_FED_BSKY_HOST) {
+    return null
+  }
+  return match[1]
+}
+
+/**
+ * Find the Bridgy Fed actor of a Bluesky account through WebFinger.
+ * Returns null when the account is not bridged.
+ */
+export async function lookupBridgyFedActor(
+  ctx: Context<void>,
+  handle: string,
+): Promise<URL | null> {
+  try {
+    const result = await ctx.lookupWebFinger(
+      `acct:${handle}@${BRIDGY_FED_BSKY_HOST}`,
+    )
+    const self = result?.links?.find(
+      (link) =>
+        link.rel === 'self' &&
+        link.href &&
+        (link.type === 'application/activity+json' ||
+          link.type?.startsWith('application/ld+json')),
+    )
+    return self?.href ? new URL(self.href) : null
+  } catch {
+    return null
+  }
+}
@@ -5,12 +5,23 @@ export interface ParsedContent {
   text: string
   langs: string[]
   links: CollectedLink[]
+  /** Whether Mastodon's "RE: url" quote fallback was kept in the text */
+  hasQuoteFallback: boolean
+}
+
+export interface ParseHtmlOptions {
+  /**
+   * Remove Mastodon's "RE: url" fallback paragraph of quote posts, for
+   * quotes that are carried by the post embed instead
+   */
+  stripQuoteFallback?: boolean
 }
 
 export interface CollectedLink {
   href: string
   textContent: string
   isMention: boolean
+  isHashtag: boolean
 }
 
 function getTextContent(nodes: DomNode[]): string {
@@ -32,19 +43,29 @@ function getTextContent(nodes: DomNode[]): string {
   return text
 }
 
+/**
+ * Check if an anchor element is a hashtag link.
+ * Mastodon uses class="mention hashtag" and rel="tag".
+ */
+function isHashtagLink(classList: string[], rel: string[]): boolean {
+  return classList.includes('hashtag') || rel.includes('tag')
+}
+
 /**
  * Check if an anchor element is a mention link.
  * Mastodon uses class="mention" or "u-url mention" patterns.
  */
-function isMentionLink(classList: string[]): boolean {
-  return classList.includes('mention')
+function isMentionLink(classList: string[], rel: string[]): boolean {
+  return classList.includes('mention') && !isHashtagLink(classList, rel)
 }
 
 export function parseHtmlContent(
   html: string,
   language?: string,
+  options: ParseHtmlOptions = {},
 ): ParsedContent {
   const collectedLinks: CollectedLink[] = []
+  let hasQuoteFallback = false
 
   const text = convert(html, {
     wordwrap: false,
@@ -58,6 +79,7 @@ export function parseHtmlContent(
         }
 
         const classList = (elem.attribs?.class || '').split(/\s+/)
+        const rel = (elem.attribs?.rel || '').split(/\s+/)
         const textContent = getTextContent(elem.children).trim()
 
         walk(elem.children, builder)
@@ -66,10 +88,25 @@ export function parseHtmlContent(
           collectedLinks.push({
             href,
             textContent,
-            isMention: isMentionLink(classList),
+            isMention: isMentionLink(classList, rel),
+            isHashtag:
+              isHashtagLink(classList, rel) && textContent.startsWith('#'),
           })
         }
       },
+      quoteFallback: (elem, walk, builder, formatOptions) => {
+        if (options.stripQuoteFallback) {
+          return
+        }
+        hasQuoteFallback = true
+        builder.openBlock({
+          leadingLineBreaks: formatOptions.leadingLineBreaks ?? 1,
+        })
+        walk(elem.children, builder)
+        builder.closeBlock({
+          trailingLineBreaks: formatOptions.trailingLineBreaks ?? 1,
+        })
+      },
     },
     selectors: [
       {
@@ -93,6 +130,15 @@ export function parseHtmlContent(
         selector: '.invisible',
         format: 'skip',
       },
+      // Mastodon's "RE: url" fallback for quote posts
+      {
+        selector: '.quote-inline',
+        format: 'quoteFallback',
+        options: {
+          leadingLineBreaks: 1,
+          trailingLineBreaks: 1,
+        },
+      },
     ],
   })
 
@@ -102,6 +148,7 @@ export function parseHtmlContent(
     text: trimmedText,
     langs: language ? [language] : [],
     links: collectedLinks,
+    hasQuoteFallback,
   }
 }
 
@@ -0,0 +1,279 @@
+import type { Main as EmbedExternal } from '@atproto/api/dist/client/types/app/bsky/embed/external'
+import { logger } from '../../logger'
+import type { BlobUploader } from '../registry'
+import {
+  isImageMimeType,
+  validateBlobUrl,
+  type DownloadBlobOptions,
+} from './blob-handler'
+
+export interface LinkPreview {
+  title: string
+  description: string
+  imageUrl?: string
+}
+
+const FETCH_TIMEOUT_MS = 10000
+const MAX_REDIRECTS = 3
+// Bluesky rejects card thumbnails over 1MB
+const MAX_THUMB_BYTES = 1000000
+// OpenGraph tags live in <head>, no need to read whole pages
+const MAX_HTML_BYTES = 512 * 1024
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  '#39': "'",
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#39|amp|lt|gt|quot|apos);/g, (_, name: string) => {
+    return HTML_ENTITIES[name]
+  })
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const attrPattern = /([a-zA-Z_:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g
+  for (const match of tag.matchAll(attrPattern)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(
+      match[3] ?? match[4] ?? '',
+    )
+  }
+  return attributes
+}
+
+/**
+ * Extract OpenGraph (falling back to Twitter card and plain HTML) metadata
+ * from a page.
+ */
+export function parseLinkPreview(
+  html: string,
+  pageUrl: string,
+): LinkPreview | null {
+  const meta: Record<string, string> = {}
+  for (const match of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const attributes = parseAttributes(match[0])
+    const key = attributes.property ?? attributes.name
+    if (key && attributes.content && !(key.toLowerCase() in meta)) {
+      meta[key.toLowerCase()] = attributes.content.trim()
+    }
+  }
+
+  const titleMatch = html.match(/<title[^>]*>([^<]*)<\/title>/i)
+  const title =
+    meta['og:title'] ??
+    meta['twitter:title'] ??
+    (titleMatch ? decodeEntities(titleMatch[1]).trim() : '')
+  if (!title) {
+    return null
+  }
+
+  const description =
+    meta['og:description'] ??
+    meta['twitter:description'] ??
+    meta['description'] ??
+    ''
+
+  let imageUrl: string | undefined
+  const image = meta['og:image'] ?? meta['twitter:image']
+  if (image) {
+    try {
+      imageUrl = new URL(image, pageUrl).href
+    } catch {
+      imageUrl = undefined
+    }
+  }
+
+  return {
+    title,
+    description,
+    imageUrl,
+  }
+}
+
+async function readLimited(response: Response, maxBytes: number) {
+  if (!response.body) {
+    return Buffer.alloc(0)
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let received = 0
+  while (received < maxBytes) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    received += value.byteLength
+  }
+  await reader.cancel()
+
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Fetch a URL, following redirects by hand so every hop is validated.
+ * Returns the last response along with the URL it came from.
+ */
+async function fetchValidated(
+  url: string,
+  accept: string,
+  signal: AbortSignal,
+  options?: DownloadBlobOptions,
+): Promise<{ response: Response | null; url: string }> {
+  let currentUrl = url
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    validateBlobUrl(currentUrl, options?.allowPrivateAddress ?? false)
+    const response = await fetch(currentUrl, {
+      headers: {
+        Accept: accept,
+        'User-Agent': 'ATProto-ActivityPub/1.0 (Federation Sidecar)',
+      },
+      redirect: 'manual',
+      signal,
+    })
+    const location = response.headers.get('location')
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: currentUrl }
+    }
+    currentUrl = new URL(location, currentUrl).href
+  }
+  return { response: null, url: currentUrl }
+}
+
+/**
+ * Fetch a web page and read its OpenGraph metadata.
+ */
+export async function fetchLinkPreview(
+  url: string,
+  options?: DownloadBlobOptions,
+): Promise<LinkPreview | null> {
+  try {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
+
+    try {
+      const { response, url: pageUrl } = await fetchValidated(
+        url,
+        'text/html,application/xhtml+xml',
+        controller.signal,
+        options,
+      )
+
+      const contentType = response?.headers.get('content-type') ?? ''
+      if (!response?.ok || !contentType.includes('html')) {
+        logger.debug('no link preview available', {
+          url,
+          status: response?.status,
+          contentType,
+        })
+        return null
+      }
+
+      const html = await readLimited(response, MAX_HTML_BYTES)
+      return parseLinkPreview(
+        new TextDecoder().decode(html.subarray(0, MAX_HTML_BYTES)),
+        pageUrl,
+      )
+    } finally {
+      clearTimeout(timeout)
+    }
+  } catch (err) {
+    logger.warn('failed to fetch link preview', { err, url })
+    return null
+  }
+}
+
+/**
+ * Download a preview image, giving up on anything that is not an image or
+ * is too large to be a card thumbnail.
+ */
+async function fetchThumbnail(
+  imageUrl: string,
+  options?: DownloadBlobOptions,
+): Promise<{ data: Uint8Array; mimeType: string } | null> {
+  try {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
+
+    try {
+      const { response } = await fetchValidated(
+        imageUrl,
+        'image/*',
+        controller.signal,
+        options,
+      )
+
+      const mimeType =
+        response?.headers.get('content-type')?.split(';')[0].trim() ?? ''
+      const contentLength = Number(response?.headers.get('content-length'))
+      if (
+        !response?.ok ||
+        !isImageMimeType(mimeType) ||
+        contentLength > MAX_THUMB_BYTES
+      ) {
+        logger.debug('no usable link preview image', {
+          imageUrl,
+          status: response?.status,
+          mimeType,
+          contentLength,
+        })
+        return null
+      }
+
+      // Content-Length may be missing or wrong, so check what was read too
+      const data = await readLimited(response, MAX_THUMB_BYTES + 1)
+      if (data.byteLength > MAX_THUMB_BYTES) {
+        logger.debug('link preview image too large', { imageUrl })
+        return null
+      }
+
+      return { data: new Uint8Array(data), mimeType }
+    } finally {
+      clearTimeout(timeout)
+    }
+  } catch (err) {
+    logger.warn('failed to fetch link preview image', { err, imageUrl })
+    return null
+  }
+}
+
+/**
+ * Build an `app.bsky.embed.external` card for a URL, uploading the preview
+ * image as the card thumbnail when there is one.
+ */
+export async function buildExternalEmbed(
+  uploadBlob: BlobUploader,
+  url: string,
+  options?: DownloadBlobOptions,
+): Promise<(EmbedExternal & { $type: 'app.bsky.embed.external' }) | null> {
+  const preview = await fetchLinkPreview(url, options)
+  if (!preview) {
+    return null
+  }
+
+  const external: EmbedExternal['external'] = {
+    uri: url,
+    title: preview.title,
+    description: preview.description,
+  }
+
+  if (preview.imageUrl) {
+    const thumb = await fetchThumbnail(preview.imageUrl, options)
+    if (thumb) {
+      try {
+        external.thumb = await uploadBlob(thumb.data, thumb.mimeType)
+      } catch (err) {
+        logger.warn('failed to upload link preview image', {
+          err,
+          imageUrl: preview.imageUrl,
+        })
+      }
+    }
+  }
+
+  return { $type: 'app.bsky.embed.external', external }
+}
@@ -0,0 +1,145 @@
+import {
+  Document,
+  Image,
+  Note,
+  type Article,
+  type Link,
+  type Object as APObject,
+  type Page,
+  type PropertyValue,
+  type Video,
+} from '@fedify/vocab'
+import escapeHtml from 'escape-html'
+
+/**
+ * Get the address of an object's page: its `url`, or a `text/html` link of
+ * it, falling back to the object id.
+ */
+function getPageUrl(object: Article | Page | Video | Image): URL | null {
+  for (const url of object.urls) {
+    if (url instanceof URL) {
+      return url
+    }
+    if (url.href && (!url.mediaType || url.mediaType === 'text/html')) {
+      return url.href
+    }
+  }
+  return object.id
+}
+
+function linkParagraph(url: URL | null): string {
+  if (!url) {
+    return ''
+  }
+  const href = escapeHtml(url.href)
+  return `<p><a href="${href}">${href}</a></p>`
+}
+
+/**
+ * Read the tags of an object, e.g. its mentions and hashtags, to carry them
+ * over to the Note it is mapped to.
+ */
+export async function collectTags(
+  object: APObject,
+): Promise<Array<APObject | Link>> {
+  const tags: Array<APObject | Link> = []
+  try {
+    for await (const tag of object.getTags()) {
+      tags.push(tag)
+    }
+  } catch {
+    // Tags that can't be fetched are left out
+  }
+  return tags
+}
+
+/**
+ * Read the attachments of an object to carry them over to the Note it is
+ * mapped to.
+ */
+export async function collectAttachments(
+  object: APObject,
+): Promise<Array<APObject | Link | PropertyValue>> {
+  const attachments: Array<APObject | Link | PropertyValue> = []
+  try {
+    for await (const attachment of object.getAttachments()) {
+      attachments.push(attachment)
+    }
+  } catch {
+    // Attachments that can't be fetched are left out
+  }
+  return attachments
+}
+
+/**
+ * Summarize an Article (e.g. from WriteFreely) or a Page (e.g. a Lemmy
+ * post) as a Note with its title, summary and a link to the full text,
+ * which is usually too long to bridge.
+ */
+export async function articleToNote(object: Article | Page): Promise<Note> {
+  const name = object.name?.toString()
+  let content = name ? `<p>${escapeHtml(name)}</p>` : ''
+  const summary = object.summary?.toString()
+  if (summary) {
+    content += `<p>${escapeHtml(summary)}</p>`
+  }
+  content += linkParagraph(getPageUrl(object))
+
+  return new Note({
+    id: object.id,
+    attributions: object.attributionIds,
+    tos: object.toIds,
+    ccs: object.ccIds,
+    content,
+    replyTarget: object.replyTargetId,
+    published: object.published,
+    updated: object.updated,
+    sensitive: object.sensitive,
+    tags: await collectTags(object),
+  })
+}
+
+/**
+ * Turn a Video (e.g. from PeerTube) or an Image into a Note carrying the
+ * media as a Document attachment, so it is uploaded like the attachments of
+ * any note.
+ */
+export async function mediaToNote(object: Video | Image): Promise<Note> {
+  const mediaPrefix = object instanceof Image ? 'image/' : 'video/'
+  let media: { url: URL; mediaType: string } | null = null
+  for (const url of object.urls) {
+    if (url instanceof URL) {
+      if (object.mediaType?.startsWith(mediaPrefix)) {
+        media = { url, mediaType: object.mediaType }
+        break
+      }
+    } else if (url.href && url.mediaType?.startsWith(mediaPrefix)) {
+      media = { url: url.href, mediaType: url.mediaType }
+      break
+    }
+  }
+
+  const name = object.name?.toString()
+  let content = name ? `<p>${escapeHtml(name)}</p>` : ''
+  content += object.content?.toString() ?? ''
+  const pageUrl = getPageUrl(object)
+  if (pageUrl && pageUrl.href !== media?.url.href) {
+    content += linkParagraph(pageUrl)
+  }
+
+  return new Note({
+    id: object.id,
+    attributions: object.attributionIds,
+    tos: object.toIds,
+    ccs: object.ccIds,
+    content,
+    replyTarget: object.replyTargetId,
+    published: object.published,
+    updated: object.updated,
+    sensitive: object.sensitive,
+    attachments: media
+      ? [new Document({ ...media, name: object.summary ?? name ?? null })]
+      : [],
+    tags: await collectTags(object),
+  })
+}
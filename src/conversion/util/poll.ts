@@ -0,0 +1,164 @@
+import { Collection, Link, Note, type Question } from '@fedify/vocab'
+import { Temporal } from '@js-temporal/polyfill'
+import escapeHtml from 'escape-html'
+import { collectAttachments, collectTags } from './object-mapping'
+
+// Bluesky has no polls, so a post ending in two to four option lines like
+// "[ ] Pizza" is federated as a Question, as many as Mastodon allows
+export const MIN_POLL_OPTIONS = 2
+export const MAX_POLL_OPTIONS = 4
+
+// Polls stay open for a day, Mastodon's default duration
+export const POLL_DURATION = Temporal.Duration.from({ hours: 24 })
+
+const POLL_OPTION_REGEX = /^\s*\[ \]\s*(\S.*?)\s*$/
+
+export interface ParsedPoll {
+  /** The post text without the option lines */
+  text: string
+  options: string[]
+}
+
+/**
+ * Find a poll in post text: trailing lines of the form `[ ] option` are its
+ * options. Returns null unless there are two to four distinct options.
+ */
+export function parsePoll(text: string): ParsedPoll | null {
+  const lines = text.trimEnd().split('\n')
+  const options: string[] = []
+  let end = lines.length
+  while (end > 0) {
+    const match = lines[end - 1].match(POLL_OPTION_REGEX)
+    if (!match) {
+      break
+    }
+    options.unshift(match[1])
+    end--
+  }
+
+  if (
+    options.length < MIN_POLL_OPTIONS ||
+    options.length > MAX_POLL_OPTIONS ||
+    new Set(options).size !== options.length
+  ) {
+    return null
+  }
+
+  return { text: lines.slice(0, end).join('\n').trimEnd(), options }
+}
+
+export function getPollEndTime(published: Temporal.Instant): Temporal.Instant {
+  return published.add(POLL_DURATION)
+}
+
+/**
+ * Build the Question properties of a poll: its options with their vote
+ * counts, the voter count and when it ends or ended.
+ */
+export function buildQuestionValues(
+  poll: ParsedPoll,
+  published: Temporal.Instant,
+  votes: Map<string, number>,
+): {
+  exclusiveOptions: Note[]
+  endTime: Temporal.Instant
+  closed: Temporal.Instant | null
+  voters: number
+} {
+  const endTime = getPollEndTime(published)
+  let voters = 0
+  const exclusiveOptions = poll.options.map((name) => {
+    const count = votes.get(name) ?? 0
+    voters += count
+    return new Note({
+      name,
+      replies: new Collection({ totalItems: count }),
+    })
+  })
+
+  const closed =
+    Temporal.Instant.compare(endTime, Temporal.Now.instant()) <= 0
+      ? endTime
+      : null
+
+  return { exclusiveOptions, endTime, closed, voters }
+}
+
+/**
+ * Turn a remote Question into a Note whose content lists the options with
+ * their vote counts and links to the poll, so it can be bridged as text.
+ */
+export async function questionToNote(question: Question): Promise<Note> {
+  const options: Array<{ name: string; count: number | null }> = []
+  const optionObjects = [
+    ...(await collectOptions(question.getExclusiveOptions())),
+    ...(await collectOptions(question.getInclusiveOptions())),
+  ]
+  for (const option of optionObjects) {
+    const name = option.name?.toString()
+    if (!name) {
+      continue
+    }
+    let count: number | null = null
+    try {
+      count = (await option.getReplies())?.totalItems ?? null
+    } catch {
+      // Counts are optional, the option is still listed
+    }
+    options.push({ name, count })
+  }
+
+  const closed =
+    question.closed === true ||
+    (question.closed instanceof Temporal.Instant &&
+      Temporal.Instant.compare(question.closed, Temporal.Now.instant()) <= 0)
+
+  const optionLines = options.map(({ name, count }) => {
+    const votes =
+      count === null ? '' : ` (${count} ${count === 1 ? 'vote' : 'votes'})`
+    return `○ ${escapeHtml(name)}${votes}`
+  })
+  let content = question.content?.toString() ?? ''
+  if (optionLines.length > 0) {
+    content += `<p>${optionLines.join('<br>')}</p>`
+  }
+
+  const url = question.url instanceof Link ? question.url.href : question.url
+  const resultsUrl = url ?? question.id
+  if (resultsUrl) {
+    const label = closed ? 'Final results' : 'Vote or see results'
+    content += `<p><a href="${escapeHtml(resultsUrl.href)}">${label}</a></p>`
+  }
+
+  return new Note({
+    id: question.id,
+    attributions: question.attributionIds,
+    tos: question.toIds,
+    ccs: question.ccIds,
+    content,
+    replyTarget: question.replyTargetId,
+    published: question.published,
+    updated: question.updated,
+    url: question.url,
+    summary: question.summary,
+    sensitive: question.sensitive,
+    attachments: await collectAttachments(question),
+    tags: await collectTags(question),
+  })
+}
+
+async function collectOptions(
+  iterable: AsyncIterable<unknown>,
+): Promise<Note[]> {
+  const notes: Note[] = []
+  try {
+    for await (const option of iterable) {
+      if (option instanceof Note) {
+        notes.push(option)
+      }
+    }
+  } catch {
+    // Options that can't be fetched are left out
+  }
+  return notes
+}
@@ -0,0 +1,85 @@
+import type { Context } from '@fedify/fedify'
+import { isActor } from '@fedify/vocab'
+import type { APDatabase } from '../../db'
+import type { APRemoteActor } from '../../db/schema/remote-actor'
+
+// Resolved actors are looked up again after a day, in case they moved
+const REMOTE_ACTOR_TTL_MS = 24 * 60 * 60 * 1000
+
+// Handles that failed to resolve are retried after an hour, in case their
+// instance was only down
+const REMOTE_ACTOR_FAILURE_TTL_MS = 60 * 60 * 1000
+
+// Fediverse handles in post text, e.g. "@alice@mastodon.social"
+const FEDIVERSE_HANDLE_REGEX =
+  /(?<![\w@/.])@([\w.-]*\w)@((?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,})\b/gi
+
+export interface FediverseHandleMatch {
+  /** `user@host` without the leading `@` */
+  acct: string
+  /** UTF-16 offsets of the handle in the text, including the leading `@` */
+  start: number
+  end: number
+}
+
+export function findFediverseHandles(text: string): FediverseHandleMatch[] {
+  return [...text.matchAll(FEDIVERSE_HANDLE_REGEX)].map((match) => ({
+    acct: `${match[1]}@${match[2]}`,
+    start: match.index,
+    end: match.index + match[0].length,
+  }))
+}
+
+/**
+ * Resolve a `user@host` handle to its actor via WebFinger, using the cache
+ * in `ap_remote_actor` when it is fresh. A stale cached actor is still
+ * returned when the lookup fails. Failed lookups are remembered in
+ * `ap_remote_actor_failure` so they are not repeated for every post.
+ */
+export async function resolveRemoteActor(
+  ctx: Context<void>,
+  acct: string,
+  db?: APDatabase,
+): Promise<APRemoteActor | null> {
+  const key = acct.toLowerCase()
+  const cached = await db?.getRemoteActor(key)
+  if (
+    cached &&
+    Date.now() - new Date(cached.fetchedAt).getTime() < REMOTE_ACTOR_TTL_MS
+  ) {
+    return cached
+  }
+
+  const failure = await db?.getRemoteActorFailure(key)
+  if (
+    failure &&
+    Date.now() - new Date(failure.failedAt).getTime() <
+      REMOTE_ACTOR_FAILURE_TTL_MS
+  ) {
+    return cached ?? null
+  }
+
+  let actor: unknown = null
+  try {
+    actor = await ctx.lookupObject(`acct:${key}`)
+  } catch {
+    // Unreachable instance or unknown user
+  }
+  if (!isActor(actor) || !actor.id || !actor.inboxId) {
+    await db?.saveRemoteActorFailure({
+      acct: key,
+      failedAt: new Date().toISOString(),
+    })
+    return cached ?? null
+  }
+
+  const resolved: APRemoteActor = {
+    acct: key,
+    actorUri: actor.id.href,
+    actorInbox: actor.inboxId.href,
+    actorSharedInbox: actor.endpoints?.sharedInbox?.href ?? null,
+    fetchedAt: new Date().toISOString(),
+  }
+  await db?.saveRemoteActor(resolved)
+  return resolved
+}
@@ -0,0 +1,225 @@
+import type { Facet } from '@atproto/api'
+
+// Bluesky limits post text to 300 graphemes and 3000 bytes
+export const MAX_POST_GRAPHEMES = 300
+export const MAX_POST_BYTES = 3000
+
+export interface TextChunk {
+  text: string
+  facets: Facet[]
+}
+
+export interface SplitOptions {
+  maxGraphemes?: number
+  maxBytes?: number
+}
+
+interface Grapheme {
+  byteStart: number
+  byteEnd: number
+  isSpace: boolean
+}
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+
+function segmentGraphemes(text: string): Grapheme[] {
+  const graphemes: Grapheme[] = []
+  let byteOffset = 0
+  for (const { segment } of segmenter.segment(text)) {
+    const byteLength = Buffer.byteLength(segment, 'utf8')
+    graphemes.push({
+      byteStart: byteOffset,
+      byteEnd: byteOffset + byteLength,
+      isSpace: /^\s+$/.test(segment),
+    })
+    byteOffset += byteLength
+  }
+  return graphemes
+}
+
+export function countGraphemes(text: string): number {
+  let count = 0
+  for (const _ of segmenter.segment(text)) {
+    count++
+  }
+  return count
+}
+
+function byteOffsetOf(graphemes: Grapheme[], index: number): number {
+  if (index >= graphemes.length) {
+    return graphemes.length > 0 ? graphemes[graphemes.length - 1].byteEnd : 0
+  }
+  return graphemes[index].byteStart
+}
+
+function isInsideFacet(facets: Facet[], byteOffset: number): boolean {
+  return facets.some(
+    (facet) =>
+      facet.index.byteStart < byteOffset && byteOffset < facet.index.byteEnd,
+  )
+}
+
+/**
+ * Find where a chunk starting at grapheme `start` should end, preferring
+ * whitespace and never cutting through a facet when it can be avoided.
+ * Returns the end of the chunk text and the start of the next chunk.
+ */
+function findChunkEnd(
+  graphemes: Grapheme[],
+  facets: Facet[],
+  start: number,
+  maxGraphemes: number,
+  maxBytes: number,
+): { end: number; next: number } {
+  const startByte = byteOffsetOf(graphemes, start)
+  let limit = start
+  while (
+    limit < graphemes.length &&
+    limit - start < maxGraphemes &&
+    graphemes[limit].byteEnd - startByte <= maxBytes
+  ) {
+    limit++
+  }
+
+  if (limit === graphemes.length) {
+    return { end: limit, next: limit }
+  }
+
+  for (let i = limit; i > start; i--) {
+    if (
+      graphemes[i].isSpace &&
+      !isInsideFacet(facets, graphemes[i].byteStart)
+    ) {
+      let end = i
+      while (end > start && graphemes[end - 1].isSpace) end--
+      let next = i
+      while (next < graphemes.length && graphemes[next].isSpace) next++
+      if (end > start) {
+        return { end, next }
+      }
+    }
+  }
+
+  for (let i = limit; i > start; i--) {
+    if (!isInsideFacet(facets, graphemes[i].byteStart)) {
+      return { end: i, next: i }
+    }
+  }
+
+  return { end: limit, next: limit }
+}
+
+function sliceChunk(
+  bytes: Buffer,
+  facets: Facet[],
+  startByte: number,
+  endByte: number,
+): TextChunk {
+  return {
+    text: bytes.subarray(startByte, endByte).toString('utf8'),
+    facets: facets
+      .filter(
+        (facet) =>
+          facet.index.byteStart >= startByte && facet.index.byteEnd <= endByte,
+      )
+      .map((facet) => ({
+        ...facet,
+        index: {
+          byteStart: facet.index.byteStart - startByte,
+          byteEnd: facet.index.byteEnd - startByte,
+        },
+      })),
+  }
+}
+
+/**
+ * Split rich text into chunks that each fit in a Bluesky post, breaking on
+ * whitespace where possible. Facets are re-indexed relative to their chunk;
+ * a facet that cannot be kept whole in one chunk is dropped.
+ */
+export function splitRichText(
+  text: string,
+  facets: Facet[] = [],
+  options?: SplitOptions,
+): TextChunk[] {
+  const maxGraphemes = options?.maxGraphemes ?? MAX_POST_GRAPHEMES
+  const maxBytes = options?.maxBytes ?? MAX_POST_BYTES
+  const bytes = Buffer.from(text, 'utf8')
+  const graphemes = segmentGraphemes(text)
+
+  const chunks: TextChunk[] = []
+  let start = 0
+  while (start < graphemes.length) {
+    const { end, next } = findChunkEnd(
+      graphemes,
+      facets,
+      start,
+      maxGraphemes,
+      maxBytes,
+    )
+    chunks.push(
+      sliceChunk(
+        bytes,
+        facets,
+        byteOffsetOf(graphemes, start),
+        byteOffsetOf(graphemes, end),
+      ),
+    )
+    start = next
+  }
+
+  return chunks.length > 0 ? chunks : [{ text, facets }]
+}
+
+/**
+ * Cut rich text to fit in a single Bluesky post, breaking on whitespace
+ * where possible, and append `suffix` when anything was cut. Text that
+ * already fits is returned unchanged.
+ */
+export function truncateRichText(
+  text: string,
+  facets: Facet[],
+  suffix: TextChunk,
+  options?: SplitOptions,
+): TextChunk {
+  const maxGraphemes = options?.maxGraphemes ?? MAX_POST_GRAPHEMES
+  const maxBytes = options?.maxBytes ?? MAX_POST_BYTES
+
+  if (
+    countGraphemes(text) <= maxGraphemes &&
+    Buffer.byteLength(text, 'utf8') <= maxBytes
+  ) {
+    return { text, facets }
+  }
+
+  const suffixBytes = Buffer.byteLength(suffix.text, 'utf8')
+  const graphemes = segmentGraphemes(text)
+  const { end } = findChunkEnd(
+    graphemes,
+    facets,
+    0,
+    maxGraphemes - countGraphemes(suffix.text),
+    maxBytes - suffixBytes,
+  )
+  const head = sliceChunk(
+    Buffer.from(text, 'utf8'),
+    facets,
+    0,
+    byteOffsetOf(graphemes, end),
+  )
+  const headBytes = Buffer.byteLength(head.text, 'utf8')
+
+  return {
+    text: head.text + suffix.text,
+    facets: [
+      ...head.facets,
+      ...suffix.facets.map((facet) => ({
+        ...facet,
+        index: {
+          byteStart: facet.index.byteStart + headBytes,
+          byteEnd: facet.index.byteEnd + headBytes,
+        },
+      })),
+    ],
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  isDisableRule,
+  isRecord as isPostgateRecord,
+  type Record as Postgate,
+} from '@atproto/api/dist/client/types/app/bsky/feed/postgate'
+import {
+  isFollowerRule,
+  isFollowingRule,
+  isRecord as isThreadgateRecord,
+  type Record as Threadgate,
+} from '@atproto/api/dist/client/types/app/bsky/feed/threadgate'
+import { AtUri } from '@atproto/syntax'
+
+export const THREADGATE_COLLECTION = 'app.bsky.feed.threadgate'
+export const POSTGATE_COLLECTION = 'app.bsky.feed.postgate'
+
+// Both the PDS and AppView clients can fetch records
+interface RecordFetcher {
+  getRecord(
+    did: string,
+    collection: string,
+    rkey: string,
+  ): Promise<{ value: unknown } | null>
+}
+
+/**
+ * Follow relationships between a Fediverse replier and the author of the
+ * thread root, checked lazily as threadgate rules need them.
+ */
+export interface ReplierRelations {
+  /** The root author follows the replier */
+  isFollowedByAuthor: () => Promise<boolean>
+  /** The replier follows the root author */
+  followsAuthor: () => Promise<boolean>
+}
+
+/**
+ * Fetch the threadgate of a post. A threadgate shares its record key with
+ * the post it gates.
+ */
+export async function getThreadgate(
+  client: RecordFetcher,
+  postUri: string,
+): Promise<Threadgate | null> {
+  const atUri = new AtUri(postUri)
+  const record = await client.getRecord(
+    atUri.host,
+    THREADGATE_COLLECTION,
+    atUri.rkey,
+  )
+  if (!record || !isThreadgateRecord(record.value)) {
+    return null
+  }
+  return record.value as Threadgate
+}
+
+/**
+ * Whether a threadgate limits who can reply. An absent `allow` list means
+ * anyone can, an empty one means no one can.
+ */
+export function restrictsReplies(threadgate: Threadgate | null): boolean {
+  return Array.isArray(threadgate?.allow)
+}
+
+/**
+ * Check whether a threadgate lets a Fediverse actor reply. Only follow
+ * rules can be evaluated for Fediverse actors; mention and list rules
+ * refer to Bluesky accounts and never match.
+ */
+export async function threadgateAllowsReply(
+  threadgate: Threadgate | null,
+  relations: ReplierRelations,
+): Promise<boolean> {
+  if (!threadgate?.allow) {
+    return true
+  }
+  for (const rule of threadgate.allow) {
+    if (isFollowingRule(rule) && (await relations.isFollowedByAuthor())) {
+      return true
+    }
+    if (isFollowerRule(rule) && (await relations.followsAuthor())) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Fetch the postgate of a post. Like threadgates, a postgate shares its
+ * record key with the post it gates.
+ */
+export async function getPostgate(
+  client: RecordFetcher,
+  postUri: string,
+): Promise<Postgate | null> {
+  const atUri = new AtUri(postUri)
+  const record = await client.getRecord(
+    atUri.host,
+    POSTGATE_COLLECTION,
+    atUri.rkey,
+  )
+  if (!record || !isPostgateRecord(record.value)) {
+    return null
+  }
+  return record.value as Postgate
+}
+
+/**
+ * Whether a postgate lets another post embed, i.e. quote, the gated post.
+ * Quotes the author detached from count as disallowed too.
+ */
+export function postgateAllowsEmbedding(
+  postgate: Postgate | null,
+  embeddingUri?: string,
+): boolean {
+  if (postgate?.embeddingRules?.some((rule) => isDisableRule(rule))) {
+    return false
+  }
+  return !(
+    embeddingUri && postgate?.detachedEmbeddingUris?.includes(embeddingUri)
+  )
+}
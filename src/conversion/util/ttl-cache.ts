@@ -0,0 +1,49 @@
+const DEFAULT_MAX_ENTRIES = 1000
+
+interface CacheEntry<T> {
+  expiresAt: number
+  value: Promise<T>
+}
+
+/**
+ * In-memory cache of lookups that are too slow to repeat for every request,
+ * e.g. those sent to other servers. Concurrent lookups of the same key
+ * share one promise, failed ones are not cached.
+ */
+export class TtlCache<T> {
+  private ttl: number
+  private maxEntries: number
+  private entries = new Map<string, CacheEntry<T>>()
+
+  constructor(ttl: number, maxEntries: number = DEFAULT_MAX_ENTRIES) {
+    this.ttl = ttl
+    this.maxEntries = maxEntries
+  }
+
+  get(key: string, load: () => Promise<T>): Promise<T> {
+    const now = Date.now()
+    const cached = this.entries.get(key)
+    if (cached && cached.expiresAt > now) {
+      return cached.value
+    }
+
+    const value = load()
+    const entry = { expiresAt: now + this.ttl, value }
+    value.catch(() => {
+      if (this.entries.get(key) === entry) {
+        this.entries.delete(key)
+      }
+    })
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    // Entries are kept in insertion order, the first is the oldest
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest !== undefined) {
+        this.entries.delete(oldest)
+      }
+    }
+    return value
+  }
+}
@@ -5,13 +5,20 @@ import {
   DatabaseSchema,
   blueskyBridgeAccount,
   bridgeAccount,
+  chatCursor,
+  directMessage,
   externalReply,
   follow,
   keyPair,
   like,
   monitoredPost,
+  outboundFollow,
+  pollVote,
   postMapping,
+  remoteActor,
+  remoteActorFailure,
   repost,
+  timelinePost,
 } from './schema'
 
 export type { DatabaseSchema } from './schema'
@@ -126,6 +133,343 @@ export class APDatabase {
       .execute()
   }
 
+  async getFollow(
+    userDid: string,
+    actorUri: string,
+  ): Promise<follow.APFollow | undefined> {
+    return this.db
+      .selectFrom('ap_follow')
+      .selectAll()
+      .where('userDid', '=', userDid)
+      .where('actorUri', '=', actorUri)
+      .executeTakeFirst()
+  }
+
+  async saveOutboundFollow(
+    data: outboundFollow.APOutboundFollow,
+  ): Promise<outboundFollow.APOutboundFollow> {
+    await this.db
+      .insertInto('ap_outbound_follow')
+      .values(data)
+      .onConflict((oc) =>
+        oc.columns(['userDid', 'actorUri']).doUpdateSet({
+          actorInbox: data.actorInbox,
+          actorSharedInbox: data.actorSharedInbox,
+          activityId: data.activityId,
+          status: data.status,
+          updatedAt: data.updatedAt,
+        }),
+      )
+      .execute()
+    return data
+  }
+
+  async getOutboundFollow(
+    userDid: string,
+    actorUri: string,
+  ): Promise<outboundFollow.APOutboundFollow | undefined> {
+    return this.db
+      .selectFrom('ap_outbound_follow')
+      .selectAll()
+      .where('userDid', '=', userDid)
+      .where('actorUri', '=', actorUri)
+      .executeTakeFirst()
+  }
+
+  async getOutboundFollowByActivityId(
+    activityId: string,
+  ): Promise<outboundFollow.APOutboundFollow | undefined> {
+    return this.db
+      .selectFrom('ap_outbound_follow')
+      .selectAll()
+      .where('activityId', '=', activityId)
+      .executeTakeFirst()
+  }
+
+  async getOutboundFollows(
+    userDid: string,
+    status?: outboundFollow.APOutboundFollowStatus,
+  ): Promise<outboundFollow.APOutboundFollow[]> {
+    let query = this.db
+      .selectFrom('ap_outbound_follow')
+      .selectAll()
+      .where('userDid', '=', userDid)
+      .orderBy('createdAt', 'desc')
+
+    if (status) {
+      query = query.where('status', '=', status)
+    }
+
+    return query.execute()
+  }
+
+  async updateOutboundFollowStatus(
+    activityId: string,
+    status: outboundFollow.APOutboundFollowStatus,
+  ): Promise<void> {
+    await this.db
+      .updateTable('ap_outbound_follow')
+      .set({ status, updatedAt: new Date().toISOString() })
+      .where('activityId', '=', activityId)
+      .execute()
+  }
+
+  async deleteOutboundFollow(userDid: string, actorUri: string): Promise<void> {
+    await this.db
+      .deleteFrom('ap_outbound_follow')
+      .where('userDid', '=', userDid)
+      .where('actorUri', '=', actorUri)
+      .execute()
+  }
+
+  async deleteOutboundFollowsByActor(actorUri: string): Promise<number> {
+    const result = await this.db
+      .deleteFrom('ap_outbound_follow')
+      .where('actorUri', '=', actorUri)
+      .executeTakeFirst()
+    return Number(result.numDeletedRows)
+  }
+
+  async hasAcceptedOutboundFollowers(actorUri: string): Promise<boolean> {
+    const result = await this.db
+      .selectFrom('ap_outbound_follow')
+      .select('userDid')
+      .where('actorUri', '=', actorUri)
+      .where('status', '=', 'accepted')
+      .executeTakeFirst()
+    return result !== undefined
+  }
+
+  async createTimelinePost(
+    data: timelinePost.APTimelinePost,
+  ): Promise<timelinePost.APTimelinePost> {
+    await this.db
+      .insertInto('ap_timeline_post')
+      .values(data)
+      .onConflict((oc) => oc.column('atUri').doNothing())
+      .execute()
+    return data
+  }
+
+  async deleteTimelinePost(atUri: string): Promise<void> {
+    await this.db
+      .deleteFrom('ap_timeline_post')
+      .where('atUri', '=', atUri)
+      .execute()
+  }
+
+  async deleteTimelinePostsByActor(apActorId: string): Promise<number> {
+    const result = await this.db
+      .deleteFrom('ap_timeline_post')
+      .where('apActorId', '=', apActorId)
+      .executeTakeFirst()
+    return Number(result.numDeletedRows)
+  }
+
+  /**
+   * Get bridged posts from the Fediverse accounts a local user follows,
+   * newest first, for the timeline feed.
+   */
+  async getTimelineForUser(opts: {
+    userDid: string
+    cursor?: string | null
+    limit: number
+  }): Promise<{
+    posts: timelinePost.APTimelinePost[]
+    nextCursor: string | null
+  }> {
+    let query = this.db
+      .selectFrom('ap_timeline_post')
+      .innerJoin(
+        'ap_outbound_follow',
+        'ap_outbound_follow.actorUri',
+        'ap_timeline_post.apActorId',
+      )
+      .selectAll('ap_timeline_post')
+      .where('ap_outbound_follow.userDid', '=', opts.userDid)
+      .where('ap_outbound_follow.status', '=', 'accepted')
+      .orderBy('ap_timeline_post.createdAt', 'desc')
+      .limit(opts.limit + 1)
+
+    if (opts.cursor) {
+      query = query.where('ap_timeline_post.createdAt', '<', opts.cursor)
+    }
+
+    const results = await query.execute()
+    let nextCursor: string | null = null
+
+    if (results.length > opts.limit) {
+      results.pop()
+      const lastItem = results[results.length - 1]
+      nextCursor = lastItem.createdAt
+    }
+
+    return { posts: results, nextCursor }
+  }
+
+  async saveRemoteActor(
+    data: remoteActor.APRemoteActor,
+  ): Promise<remoteActor.APRemoteActor> {
+    await this.db
+      .insertInto('ap_remote_actor')
+      .values(data)
+      .onConflict((oc) =>
+        oc.column('acct').doUpdateSet({
+          actorUri: data.actorUri,
+          actorInbox: data.actorInbox,
+          actorSharedInbox: data.actorSharedInbox,
+          fetchedAt: data.fetchedAt,
+        }),
+      )
+      .execute()
+    return data
+  }
+
+  async getRemoteActor(
+    acct: string,
+  ): Promise<remoteActor.APRemoteActor | undefined> {
+    return this.db
+      .selectFrom('ap_remote_actor')
+      .selectAll()
+      .where('acct', '=', acct.toLowerCase())
+      .executeTakeFirst()
+  }
+
+  async getRemoteActorByUri(
+    actorUri: string,
+  ): Promise<remoteActor.APRemoteActor | undefined> {
+    return this.db
+      .selectFrom('ap_remote_actor')
+      .selectAll()
+      .where('actorUri', '=', actorUri)
+      .executeTakeFirst()
+  }
+
+  async deleteRemoteActorByUri(actorUri: string): Promise<void> {
+    await this.db
+      .deleteFrom('ap_remote_actor')
+      .where('actorUri', '=', actorUri)
+      .execute()
+  }
+
+  async saveRemoteActorFailure(
+    data: remoteActorFailure.APRemoteActorFailure,
+  ): Promise<remoteActorFailure.APRemoteActorFailure> {
+    await this.db
+      .insertInto('ap_remote_actor_failure')
+      .values(data)
+      .onConflict((oc) =>
+        oc.column('acct').doUpdateSet({ failedAt: data.failedAt }),
+      )
+      .execute()
+    return data
+  }
+
+  async getRemoteActorFailure(
+    acct: string,
+  ): Promise<remoteActorFailure.APRemoteActorFailure | undefined> {
+    return this.db
+      .selectFrom('ap_remote_actor_failure')
+      .selectAll()
+      .where('acct', '=', acct.toLowerCase())
+      .executeTakeFirst()
+  }
+
+  async saveDirectMessageThread(
+    data: directMessage.APDirectMessageThread,
+  ): Promise<directMessage.APDirectMessageThread> {
+    await this.db
+      .insertInto('ap_direct_message_thread')
+      .values(data)
+      .onConflict((oc) =>
+        oc.columns(['userDid', 'apActorId']).doUpdateSet({
+          apActorInbox: data.apActorInbox,
+          lastNoteId: data.lastNoteId,
+          updatedAt: data.updatedAt,
+        }),
+      )
+      .execute()
+    return data
+  }
+
+  async getDirectMessageThread(
+    userDid: string,
+    apActorId: string,
+  ): Promise<directMessage.APDirectMessageThread | undefined> {
+    return this.db
+      .selectFrom('ap_direct_message_thread')
+      .selectAll()
+      .where('userDid', '=', userDid)
+      .where('apActorId', '=', apActorId)
+      .executeTakeFirst()
+  }
+
+  async getLatestDirectMessageThread(
+    userDid: string,
+  ): Promise<directMessage.APDirectMessageThread | undefined> {
+    return this.db
+      .selectFrom('ap_direct_message_thread')
+      .selectAll()
+      .where('userDid', '=', userDid)
+      .orderBy('updatedAt', 'desc')
+      .limit(1)
+      .executeTakeFirst()
+  }
+
+  async deleteDirectMessageThreadsByActor(apActorId: string): Promise<number> {
+    const result = await this.db
+      .deleteFrom('ap_direct_message_thread')
+      .where('apActorId', '=', apActorId)
+      .executeTakeFirst()
+    return Number(result.numDeletedRows)
+  }
+
+  async createPollVote(
+    data: pollVote.APPollVote,
+  ): Promise<pollVote.APPollVote> {
+    await this.db
+      .insertInto('ap_poll_vote')
+      .values(data)
+      .onConflict((oc) => oc.doNothing())
+      .execute()
+    return data
+  }
+
+  async getPollVoteCounts(pollAtUri: string): Promise<Map<string, number>> {
+    const rows = await this.db
+      .selectFrom('ap_poll_vote')
+      .select(['option', (eb) => eb.fn.count<number>('apActorId').as('count')])
+      .where('pollAtUri', '=', pollAtUri)
+      .groupBy('option')
+      .execute()
+    return new Map(rows.map((row) => [row.option, Number(row.count)]))
+  }
+
+  async deletePollVotesByActor(apActorId: string): Promise<number> {
+    const result = await this.db
+      .deleteFrom('ap_poll_vote')
+      .where('apActorId', '=', apActorId)
+      .executeTakeFirst()
+    return Number(result.numDeletedRows)
+  }
+
+  async getChatCursor(): Promise<chatCursor.APChatCursor | undefined> {
+    return this.db
+      .selectFrom('ap_chat_cursor')
+      .selectAll()
+      .where('id', '=', 1)
+      .executeTakeFirst()
+  }
+
+  async saveChatCursor(cursor: string): Promise<void> {
+    const updatedAt = new Date().toISOString()
+    await this.db
+      .insertInto('ap_chat_cursor')
+      .values({ id: 1, cursor, updatedAt })
+      .onConflict((oc) => oc.column('id').doUpdateSet({ cursor, updatedAt }))
+      .execute()
+  }
+
   async createKeyPair(data: keyPair.APKeyPair): Promise<keyPair.APKeyPair> {
     await this.db.insertInto('ap_key_pair').values(data).execute()
     return data
@@ -219,14 +563,17 @@ export class APDatabase {
   }
 
   async createPostMapping(
-    data: postMapping.APPostMapping,
+    data: Omit<postMapping.APPostMapping, 'chunkIndex'> & {
+      chunkIndex?: number
+    },
   ): Promise<postMapping.APPostMapping> {
+    const row = { ...data, chunkIndex: data.chunkIndex ?? 0 }
     await this.db
       .insertInto('ap_post_mapping')
-      .values(data)
+      .values(row)
       .onConflict((oc) => oc.doNothing())
       .execute()
-    return data
+    return row
   }
 
   async getPostMapping(
@@ -246,9 +593,21 @@ export class APDatabase {
       .selectFrom('ap_post_mapping')
       .selectAll()
       .where('apNoteId', '=', apNoteId)
+      .orderBy('chunkIndex', 'asc')
       .executeTakeFirst()
   }
 
+  async getPostMappingsByApNoteId(
+    apNoteId: string,
+  ): Promise<postMapping.APPostMapping[]> {
+    return this.db
+      .selectFrom('ap_post_mapping')
+      .selectAll()
+      .where('apNoteId', '=', apNoteId)
+      .orderBy('chunkIndex', 'asc')
+      .execute()
+  }
+
   async deletePostMapping(atUri: string): Promise<void> {
     await this.db
       .deleteFrom('ap_post_mapping')
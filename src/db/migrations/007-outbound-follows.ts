@@ -0,0 +1,32 @@
+import { Kysely } from 'kysely'
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('ap_outbound_follow')
+    .addColumn('userDid', 'text', (col) => col.notNull())
+    .addColumn('actorUri', 'text', (col) => col.notNull())
+    .addColumn('actorInbox', 'text', (col) => col.notNull())
+    .addColumn('actorSharedInbox', 'text')
+    .addColumn('activityId', 'text', (col) => col.notNull())
+    .addColumn('status', 'text', (col) => col.notNull())
+    .addColumn('createdAt', 'text', (col) => col.notNull())
+    .addColumn('updatedAt', 'text', (col) => col.notNull())
+    .addPrimaryKeyConstraint('ap_outbound_follow_pkey', ['userDid', 'actorUri'])
+    .execute()
+
+  await db.schema
+    .createIndex('ap_outbound_follow_activity_id_idx')
+    .on('ap_outbound_follow')
+    .column('activityId')
+    .execute()
+
+  await db.schema
+    .createIndex('ap_outbound_follow_actor_uri_idx')
+    .on('ap_outbound_follow')
+    .column('actorUri')
+    .execute()
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable('ap_outbound_follow').execute()
+}
@@ -0,0 +1,21 @@
+import { Kysely } from 'kysely'
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('ap_timeline_post')
+    .addColumn('atUri', 'text', (col) => col.primaryKey())
+    .addColumn('apNoteId', 'text', (col) => col.notNull())
+    .addColumn('apActorId', 'text', (col) => col.notNull())
+    .addColumn('createdAt', 'text', (col) => col.notNull())
+    .execute()
+
+  await db.schema
+    .createIndex('ap_timeline_post_actor_created_idx')
+    .on('ap_timeline_post')
+    .columns(['apActorId', 'createdAt'])
+    .execute()
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable('ap_timeline_post').execute()
+}
@@ -0,0 +1,15 @@
+import { Kysely } from 'kysely'
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .alterTable('ap_post_mapping')
+    .addColumn('chunkIndex', 'integer', (col) => col.notNull().defaultTo(0))
+    .execute()
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .alterTable('ap_post_mapping')
+    .dropColumn('chunkIndex')
+    .execute()
+}
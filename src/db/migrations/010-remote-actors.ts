@@ -0,0 +1,22 @@
+import { Kysely } from 'kysely'
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('ap_remote_actor')
+    .addColumn('acct', 'text', (col) => col.primaryKey())
+    .addColumn('actorUri', 'text', (col) => col.notNull())
+    .addColumn('actorInbox', 'text', (col) => col.notNull())
+    .addColumn('actorSharedInbox', 'text')
+    .addColumn('fetchedAt', 'text', (col) => col.notNull())
+    .execute()
+
+  await db.schema
+    .createIndex('ap_remote_actor_actor_uri_idx')
+    .on('ap_remote_actor')
+    .column('actorUri')
+    .execute()
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable('ap_remote_actor').execute()
+}
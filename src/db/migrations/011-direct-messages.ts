@@ -0,0 +1,28 @@
+import { Kysely } from 'kysely'
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('ap_direct_message_thread')
+    .addColumn('userDid', 'text', (col) => col.notNull())
+    .addColumn('apActorId', 'text', (col) => col.notNull())
+    .addColumn('apActorInbox', 'text', (col) => col.notNull())
+    .addColumn('lastNoteId', 'text', (col) => col.notNull())
+    .addColumn('updatedAt', 'text', (col) => col.notNull())
+    .addPrimaryKeyConstraint('ap_direct_message_thread_pkey', [
+      'userDid',
+      'apActorId',
+    ])
+    .execute()
+
+  await db.schema
+    .createTable('ap_chat_cursor')
+    .addColumn('id', 'integer', (col) => col.primaryKey().notNull())
+    .addColumn('cursor', 'text', (col) => col.notNull())
+    .addColumn('updatedAt', 'text', (col) => col.notNull())
+    .execute()
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable('ap_chat_cursor').execute()
+  await db.schema.dropTable('ap_direct_message_thread').execute()
+}
@@ -0,0 +1,23 @@
+import { Kysely } from 'kysely'
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('ap_poll_vote')
+    .addColumn('pollAtUri', 'text', (col) => col.notNull())
+    .addColumn('apActorId', 'text', (col) => col.notNull())
+    .addColumn('option', 'text', (col) => col.notNull())
+    .addColumn('apNoteId', 'text', (col) => col.notNull())
+    .addColumn('createdAt', 'text', (col) => col.notNull())
+    .addPrimaryKeyConstraint('ap_poll_vote_pkey', ['pollAtUri', 'apActorId'])
+    .execute()
+
+  await db.schema
+    .createIndex('ap_poll_vote_actor_id_idx')
+    .on('ap_poll_vote')
+    .column('apActorId')
+    .execute()
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable('ap_poll_vote').execute()
+}
@@ -0,0 +1,13 @@
+import { Kysely } from 'kysely'
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('ap_remote_actor_failure')
+    .addColumn('acct', 'text', (col) => col.primaryKey())
+    .addColumn('failedAt', 'text', (col) => col.notNull())
+    .execute()
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable('ap_remote_actor_failure').execute()
+}
@@ -4,6 +4,13 @@ import * as constellation from './003-constellation'
 import * as followSharedInbox from './004-follow-shared-inbox'
 import * as likesReposts from './005-ap-likes-reposts'
 import * as engagementNotifications from './006-engagement-notifications'
+import * as outboundFollows from './007-outbound-follows'
+import * as timelinePosts from './008-timeline-posts'
+import * as postMappingChunks from './009-post-mapping-chunks'
+import * as remoteActors from './010-remote-actors'
+import * as directMessages from './011-direct-messages'
+import * as pollVotes from './012-poll-votes'
+import * as remoteActorFailures from './013-remote-actor-failures'
 
 export default {
   '001': init,
@@ -12,4 +19,11 @@ export default {
   '004': followSharedInbox,
   '005': likesReposts,
   '006': engagementNotifications,
+  '007': outboundFollows,
+  '008': timelinePosts,
+  '009': postMappingChunks,
+  '010': remoteActors,
+  '011': directMessages,
+  '012': pollVotes,
+  '013': remoteActorFailures,
 }
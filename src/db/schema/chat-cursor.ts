@@ -0,0 +1,11 @@
+export interface APChatCursor {
+  id: number // Always 1 - singleton
+  cursor: string // Position in the bridge account's chat log
+  updatedAt: string
+}
+
+export const tableName = 'ap_chat_cursor'
+
+export interface PartialDB {
+  [tableName]: APChatCursor
+}
@@ -0,0 +1,15 @@
+// A Fediverse actor who sent a local user direct messages. The user's
+// answers in the bridge chat go to the actor who wrote to them last.
+export interface APDirectMessageThread {
+  userDid: string
+  apActorId: string
+  apActorInbox: string
+  lastNoteId: string // Latest note from the actor, answers reply to it
+  updatedAt: string
+}
+
+export const tableName = 'ap_direct_message_thread'
+
+export interface PartialDB {
+  [tableName]: APDirectMessageThread
+}
@@ -1,12 +1,19 @@
 import * as blueskyBridgeAccount from './bluesky-bridge-account'
 import * as bridgeAccount from './bridge-account'
+import * as chatCursor from './chat-cursor'
+import * as directMessage from './direct-message'
 import * as externalReply from './external-reply'
 import * as follow from './follow'
 import * as keyPair from './key-pair'
 import * as like from './like'
 import * as monitoredPost from './monitored-post'
+import * as outboundFollow from './outbound-follow'
+import * as pollVote from './poll-vote'
 import * as postMapping from './post-mapping'
+import * as remoteActor from './remote-actor'
+import * as remoteActorFailure from './remote-actor-failure'
 import * as repost from './repost'
+import * as timelinePost from './timeline-post'
 
 export type DatabaseSchema = follow.PartialDB &
   keyPair.PartialDB &
@@ -16,16 +23,30 @@ export type DatabaseSchema = follow.PartialDB &
   monitoredPost.PartialDB &
   externalReply.PartialDB &
   like.PartialDB &
-  repost.PartialDB
+  repost.PartialDB &
+  outboundFollow.PartialDB &
+  timelinePost.PartialDB &
+  remoteActor.PartialDB &
+  remoteActorFailure.PartialDB &
+  directMessage.PartialDB &
+  chatCursor.PartialDB &
+  pollVote.PartialDB
 
 export {
   blueskyBridgeAccount,
   bridgeAccount,
+  chatCursor,
+  directMessage,
   externalReply,
   follow,
   keyPair,
   like,
   monitoredPost,
+  outboundFollow,
+  pollVote,
   postMapping,
+  remoteActor,
+  remoteActorFailure,
   repost,
+  timelinePost,
 }
@@ -0,0 +1,18 @@
+export type APOutboundFollowStatus = 'pending' | 'accepted' | 'rejected'
+
+export interface APOutboundFollow {
+  userDid: string
+  actorUri: string
+  actorInbox: string
+  actorSharedInbox: string | null
+  activityId: string
+  status: APOutboundFollowStatus
+  createdAt: string
+  updatedAt: string
+}
+
+export const tableName = 'ap_outbound_follow'
+
+export interface PartialDB {
+  [tableName]: APOutboundFollow
+}
@@ -0,0 +1,14 @@
+// A Fediverse vote on a poll posted from Bluesky
+export interface APPollVote {
+  pollAtUri: string
+  apActorId: string
+  option: string // The chosen option's text
+  apNoteId: string // The Note carrying the vote
+  createdAt: string
+}
+
+export const tableName = 'ap_poll_vote'
+
+export interface PartialDB {
+  [tableName]: APPollVote
+}
@@ -4,6 +4,8 @@ export interface APPostMapping {
   apActorId: string
   apActorInbox: string
   createdAt: string
+  /** Position in the thread a long note was split into, 0 is canonical */
+  chunkIndex: number
 }
 
 export const tableName = 'ap_post_mapping'
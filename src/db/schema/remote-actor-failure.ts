@@ -0,0 +1,12 @@
+/** `@user@host` handle that could not be resolved to an actor */
+export interface APRemoteActorFailure {
+  /** Lowercased `user@host` */
+  acct: string
+  failedAt: string
+}
+
+export const tableName = 'ap_remote_actor_failure'
+
+export interface PartialDB {
+  [tableName]: APRemoteActorFailure
+}
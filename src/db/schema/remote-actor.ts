@@ -0,0 +1,15 @@
+/** Fediverse actor resolved from a `@user@host` handle via WebFinger */
+export interface APRemoteActor {
+  /** Lowercased `user@host` */
+  acct: string
+  actorUri: string
+  actorInbox: string
+  actorSharedInbox: string | null
+  fetchedAt: string
+}
+
+export const tableName = 'ap_remote_actor'
+
+export interface PartialDB {
+  [tableName]: APRemoteActor
+}
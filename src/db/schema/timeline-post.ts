@@ -0,0 +1,12 @@
+export interface APTimelinePost {
+  atUri: string
+  apNoteId: string
+  apActorId: string
+  createdAt: string
+}
+
+export const tableName = 'ap_timeline_post'
+
+export interface PartialDB {
+  [tableName]: APTimelinePost
+}
@@ -85,6 +85,127 @@ describe('APDatabase', () => {
     })
   })
 
+  describe('outbound follows', () => {
+    const outboundFollow = {
+      userDid: 'did:plc:test123',
+      actorUri: 'https://mastodon.social/users/alice',
+      actorInbox: 'https://mastodon.social/users/alice/inbox',
+      actorSharedInbox: 'https://mastodon.social/inbox',
+      activityId: 'https://ap.example/users/did:plc:test123#follow-1',
+      status: 'pending' as const,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    }
+
+    it('should save and update the status of an outbound follow', async () => {
+      await db.saveOutboundFollow(outboundFollow)
+      await db.updateOutboundFollowStatus(outboundFollow.activityId, 'accepted')
+
+      const accepted = await db.getOutboundFollows(
+        'did:plc:test123',
+        'accepted',
+      )
+      expect(accepted).toHaveLength(1)
+      expect(accepted[0].actorUri).toBe(outboundFollow.actorUri)
+    })
+
+    it('should replace the activity when following the same actor again', async () => {
+      await db.saveOutboundFollow(outboundFollow)
+      await db.saveOutboundFollow({
+        ...outboundFollow,
+        activityId: 'https://ap.example/users/did:plc:test123#follow-2',
+      })
+
+      const follows = await db.getOutboundFollows('did:plc:test123')
+      expect(follows).toHaveLength(1)
+      expect(follows[0].activityId).toBe(
+        'https://ap.example/users/did:plc:test123#follow-2',
+      )
+      expect(
+        await db.getOutboundFollowByActivityId(outboundFollow.activityId),
+      ).toBeUndefined()
+    })
+  })
+
+  describe('timeline posts', () => {
+    it('should only return posts from accepted outbound follows', async () => {
+      const now = new Date().toISOString()
+      for (const [actorUri, status] of [
+        ['https://mastodon.social/users/alice', 'accepted'],
+        ['https://mastodon.social/users/bob', 'pending'],
+      ] as const) {
+        await db.saveOutboundFollow({
+          userDid: 'did:plc:test123',
+          actorUri,
+          actorInbox: `${actorUri}/inbox`,
+          actorSharedInbox: null,
+          activityId: `https://ap.example/users/did:plc:test123#follow-${status}`,
+          status,
+          createdAt: now,
+          updatedAt: now,
+        })
+        await db.createTimelinePost({
+          atUri: `at://did:plc:bridge/app.bsky.feed.post/${status}`,
+          apNoteId: `${actorUri}/statuses/1`,
+          apActorId: actorUri,
+          createdAt: now,
+        })
+      }
+
+      const { posts, nextCursor } = await db.getTimelineForUser({
+        userDid: 'did:plc:test123',
+        limit: 10,
+      })
+
+      expect(posts.map((post) => post.atUri)).toEqual([
+        'at://did:plc:bridge/app.bsky.feed.post/accepted',
+      ])
+      expect(nextCursor).toBeNull()
+    })
+  })
+
+  describe('remote actors', () => {
+    it('should cache actors by acct and update them on conflict', async () => {
+      const actor = {
+        acct: 'alice@mastodon.social',
+        actorUri: 'https://mastodon.social/users/alice',
+        actorInbox: 'https://mastodon.social/users/alice/inbox',
+        actorSharedInbox: 'https://mastodon.social/inbox',
+        fetchedAt: '2026-01-01T00:00:00.000Z',
+      }
+      await db.saveRemoteActor(actor)
+      await db.saveRemoteActor({
+        ...actor,
+        fetchedAt: '2026-01-02T00:00:00.000Z',
+      })
+
+      const cached = await db.getRemoteActor('Alice@Mastodon.social')
+      expect(cached?.fetchedAt).toBe('2026-01-02T00:00:00.000Z')
+      expect(await db.getRemoteActorByUri(actor.actorUri)).toEqual(cached)
+
+      await db.deleteRemoteActorByUri(actor.actorUri)
+      expect(await db.getRemoteActor(actor.acct)).toBeUndefined()
+    })
+
+    it('should record failed lookups by acct', async () => {
+      await db.saveRemoteActorFailure({
+        acct: 'nobody@unknown.example',
+        failedAt: '2026-01-01T00:00:00.000Z',
+      })
+      await db.saveRemoteActorFailure({
+        acct: 'nobody@unknown.example',
+        failedAt: '2026-01-02T00:00:00.000Z',
+      })
+
+      expect(
+        (await db.getRemoteActorFailure('Nobody@Unknown.example'))?.failedAt,
+      ).toBe('2026-01-02T00:00:00.000Z')
+      expect(await db.getRemoteActorFailure('alice@mastodon.social')).toBe(
+        undefined,
+      )
+    })
+  })
+
   describe('keypairs', () => {
     it('should create and retrieve a keypair', async () => {
       const keypair = {
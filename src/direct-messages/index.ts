@@ -0,0 +1 @@
+export { DirectMessageProcessor } from './processor'
@@ -0,0 +1,302 @@
+import type { Context } from '@fedify/fedify'
+import { Create, Mention, Note } from '@fedify/vocab'
+import { Temporal } from '@js-temporal/polyfill'
+import escapeHtml from 'escape-html'
+import type { AppContext } from '../context'
+import {
+  findFediverseHandles,
+  isLocalUser,
+  resolveRemoteActor,
+} from '../conversion'
+import type { ChatClient, ChatMessage } from '../dm-notifications'
+import { logger } from '../logger'
+import { createWideEvent } from '../logging'
+
+// Pages of the chat log read per poll, to bound the work of a single cycle
+const MAX_PAGES_PER_POLL = 10
+
+const NO_RECIPIENT_MESSAGE =
+  'This message was not delivered: nobody on the Fediverse has sent you a direct message yet. Start your message with their handle, e.g. @alice@mastodon.social, to write to them.'
+
+const SEND_FAILED_MESSAGE =
+  'This message could not be delivered to the Fediverse. Please try sending it again later.'
+
+interface DirectMessageRecipient {
+  actorId: URL
+  inboxId: URL
+  acct: string
+  replyTarget: URL | null
+}
+
+/**
+ * Background processor that reads local users' messages to the bridge
+ * account in Bluesky chat and sends them to the Fediverse as direct Notes.
+ * A message goes to the Fediverse actor whose handle it starts with, or
+ * otherwise to the one who most recently wrote to the user.
+ */
+export class DirectMessageProcessor {
+  private ctx: AppContext
+  private chatClient: ChatClient
+  private running = false
+  private pollTimer?: ReturnType<typeof setTimeout>
+
+  constructor(ctx: AppContext, chatClient: ChatClient) {
+    this.ctx = ctx
+    this.chatClient = chatClient
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return
+
+    this.running = true
+    logger.info('direct message processor starting', {
+      pollInterval: this.ctx.cfg.directMessages.pollInterval,
+    })
+
+    this.schedulePoll()
+  }
+
+  async stop(): Promise<void> {
+    logger.info('direct message processor stopping')
+    this.running = false
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer)
+      this.pollTimer = undefined
+    }
+  }
+
+  private schedulePoll(): void {
+    if (!this.running) return
+
+    this.pollTimer = setTimeout(async () => {
+      try {
+        await this.poll()
+      } catch (err) {
+        logger.error('direct message poll failed', { err })
+      }
+      this.schedulePoll()
+    }, this.ctx.cfg.directMessages.pollInterval)
+  }
+
+  async poll(): Promise<void> {
+    const event = createWideEvent('direct_message_poll')
+
+    const stored = await this.ctx.db.getChatCursor()
+    // On the first run, skip the existing log: earlier messages to the
+    // bridge account were never meant for the Fediverse. An empty log is
+    // saved as an empty cursor, so later polls read it from its start.
+    event.set('poll.skip_existing', !stored)
+    if (!stored) {
+      await this.ctx.db.saveChatCursor((await this.findLogEnd()) ?? '')
+      event.setOutcome('success')
+      event.emit()
+      return
+    }
+
+    let cursor = stored.cursor || undefined
+    let messageCount = 0
+    let sentCount = 0
+    let errorCount = 0
+
+    for (let page = 0; page < MAX_PAGES_PER_POLL; page++) {
+      const log = await this.chatClient.getLog(cursor)
+      if (!log.cursor) {
+        break
+      }
+
+      for (const message of log.messages) {
+        messageCount++
+        try {
+          if (await this.sendMessage(message)) {
+            sentCount++
+          }
+        } catch (err) {
+          errorCount++
+          logger.error('failed to send direct message {messageId}', {
+            messageId: message.id,
+            err,
+          })
+          // The cursor moves past the message, let the sender know to retry
+          await this.notifySendFailed(message)
+        }
+      }
+
+      cursor = log.cursor
+      await this.ctx.db.saveChatCursor(cursor)
+    }
+
+    event.set('poll.message_count', messageCount)
+    event.set('poll.sent_count', sentCount)
+    if (errorCount > 0) {
+      event.set('poll.error_count', errorCount)
+    }
+    event.setOutcome(errorCount === 0 ? 'success' : 'error')
+    event.emit()
+  }
+
+  /**
+   * Page through the whole chat log to the cursor of its latest entry,
+   * without sending any of its messages.
+   */
+  private async findLogEnd(): Promise<string | undefined> {
+    let cursor: string | undefined
+    for (;;) {
+      const log = await this.chatClient.getLog(cursor)
+      if (!log.cursor) {
+        return cursor
+      }
+      cursor = log.cursor
+    }
+  }
+
+  private async notifySendFailed(message: ChatMessage): Promise<void> {
+    try {
+      await this.chatClient.sendDm(message.senderDid, SEND_FAILED_MESSAGE)
+    } catch (err) {
+      logger.error('failed to notify {senderDid} of an undelivered message', {
+        senderDid: message.senderDid,
+        messageId: message.id,
+        err,
+      })
+    }
+  }
+
+  private async sendMessage(message: ChatMessage): Promise<boolean> {
+    const event = createWideEvent('direct_message_outbound')
+      .set('message.id', message.id)
+      .set('message.convo_id', message.convoId)
+      .set('user.did', message.senderDid)
+
+    try {
+      // The bridge account's own messages (notifications, forwarded DMs)
+      if (message.senderDid === this.ctx.mastodonBridgeAccount.did) {
+        event.setOutcome('ignored').set('ignored_reason', 'bridge_account')
+        event.emit()
+        return false
+      }
+
+      if (!(await isLocalUser(this.ctx.pdsClient, message.senderDid))) {
+        event.setOutcome('ignored').set('ignored_reason', 'not_local_user')
+        event.emit()
+        return false
+      }
+
+      const fedifyContext = this.ctx.federation.createContext(
+        new URL(this.ctx.cfg.service.publicUrl),
+      )
+
+      const { recipient, text } = await this.findRecipient(
+        fedifyContext,
+        message,
+      )
+      if (!recipient) {
+        await this.chatClient.sendDm(message.senderDid, NO_RECIPIENT_MESSAGE)
+        event.setOutcome('ignored').set('ignored_reason', 'no_recipient')
+        event.emit()
+        return false
+      }
+      event.set('message.recipient', recipient.actorId.href)
+
+      const actor = fedifyContext.getActorUri(message.senderDid)
+      const noteId = new URL(
+        `${actor.href}/messages/${encodeURIComponent(message.id)}`,
+      )
+      const [username] = recipient.acct.split('@')
+      const mentionHtml = `<span class="h-card"><a href="${escapeHtml(recipient.actorId.href)}" class="u-url mention">@<span>${escapeHtml(username)}</span></a></span>`
+      const paragraphs = text
+        .split(/\n{2,}/)
+        .map((paragraph) => escapeHtml(paragraph).replace(/\n/g, '<br>'))
+
+      const note = new Note({
+        id: noteId,
+        attribution: actor,
+        to: recipient.actorId,
+        content: `<p>${mentionHtml} ${paragraphs.join('</p><p>')}</p>`,
+        mediaType: 'text/html',
+        tags: [
+          new Mention({ href: recipient.actorId, name: `@${recipient.acct}` }),
+        ],
+        replyTarget: recipient.replyTarget,
+        published: Temporal.Instant.from(message.sentAt),
+      })
+
+      await fedifyContext.sendActivity(
+        { identifier: message.senderDid },
+        { id: recipient.actorId, inboxId: recipient.inboxId },
+        new Create({
+          id: new URL('#activity', noteId),
+          actor,
+          to: recipient.actorId,
+          object: note,
+        }),
+      )
+
+      event.setOutcome('success')
+      event.emit()
+      return true
+    } catch (err) {
+      event.setError(err instanceof Error ? err : new Error(String(err)))
+      event.setOutcome('error')
+      event.emit()
+      throw err
+    }
+  }
+
+  /**
+   * Pick the Fediverse actor a chat message is meant for: the one whose
+   * handle the message starts with, which is then removed from the text,
+   * or the last actor who sent the user a direct message.
+   */
+  private async findRecipient(
+    fedifyContext: Context<void>,
+    message: ChatMessage,
+  ): Promise<{ recipient: DirectMessageRecipient | null; text: string }> {
+    const text = message.text.trim()
+    const [handle] = findFediverseHandles(text)
+
+    if (handle?.start === 0) {
+      const remoteActor = await resolveRemoteActor(
+        fedifyContext,
+        handle.acct,
+        this.ctx.db,
+      )
+      if (!remoteActor) {
+        return { recipient: null, text }
+      }
+      const thread = await this.ctx.db.getDirectMessageThread(
+        message.senderDid,
+        remoteActor.actorUri,
+      )
+      return {
+        recipient: {
+          actorId: new URL(remoteActor.actorUri),
+          inboxId: new URL(remoteActor.actorInbox),
+          acct: remoteActor.acct,
+          replyTarget: thread ? new URL(thread.lastNoteId) : null,
+        },
+        text: text.slice(handle.end).trim(),
+      }
+    }
+
+    const thread = await this.ctx.db.getLatestDirectMessageThread(
+      message.senderDid,
+    )
+    if (!thread) {
+      return { recipient: null, text }
+    }
+
+    const actorId = new URL(thread.apActorId)
+    const remoteActor = await this.ctx.db.getRemoteActorByUri(thread.apActorId)
+    const username = actorId.pathname.split('/').filter(Boolean).pop()
+    return {
+      recipient: {
+        actorId,
+        inboxId: new URL(thread.apActorInbox),
+        acct: remoteActor?.acct ?? `${username}@${actorId.hostname}`,
+        replyTarget: new URL(thread.lastNoteId),
+      },
+      text,
+    }
+  }
+}
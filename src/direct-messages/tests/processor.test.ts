@@ -0,0 +1,235 @@
+import { Create, Note } from '@fedify/vocab'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { AppContext } from '../../context'
+import { APDatabase } from '../../db'
+import type { ChatClient, ChatMessage } from '../../dm-notifications'
+import { DirectMessageProcessor } from '../processor'
+
+vi.mock('../../logging', () => ({
+  createWideEvent: () => ({
+    set: vi.fn().mockReturnThis(),
+    setOutcome: vi.fn().mockReturnThis(),
+    setError: vi.fn().mockReturnThis(),
+    emit: vi.fn(),
+  }),
+}))
+
+const ALICE = 'did:plc:alice'
+const BRIDGE = 'did:plc:bridge'
+
+function chatMessage(overrides: Partial<ChatMessage> = {}): ChatMessage {
+  return {
+    convoId: 'convo1',
+    id: 'msg1',
+    senderDid: ALICE,
+    text: 'Sure, what is up?',
+    sentAt: '2026-01-01T12:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('DirectMessageProcessor', () => {
+  let db: APDatabase
+  let chatClient: {
+    getLog: ReturnType<typeof vi.fn>
+    sendDm: ReturnType<typeof vi.fn>
+  }
+  let sendActivity: ReturnType<typeof vi.fn>
+  let processor: DirectMessageProcessor
+
+  beforeEach(async () => {
+    db = new APDatabase(':memory:')
+    await db.migrate()
+
+    chatClient = {
+      getLog: vi.fn(),
+      sendDm: vi.fn().mockResolvedValue(true),
+    }
+    sendActivity = vi.fn().mockResolvedValue(undefined)
+
+    const ctx = {
+      db,
+      cfg: {
+        service: { publicUrl: 'https://ap.example' },
+        directMessages: { enabled: true, pollInterval: 1000 },
+      },
+      pdsClient: {
+        getAccount: vi
+          .fn()
+          .mockImplementation(async (did: string) =>
+            did === ALICE ? { did, handle: 'alice.test' } : null,
+          ),
+      },
+      mastodonBridgeAccount: { did: BRIDGE },
+      federation: {
+        createContext: vi.fn().mockReturnValue({
+          getActorUri: (identifier: string) =>
+            new URL(`https://ap.example/users/${identifier}`),
+          lookupObject: vi.fn().mockResolvedValue(null),
+          sendActivity,
+        }),
+      },
+    } as unknown as AppContext
+
+    processor = new DirectMessageProcessor(
+      ctx,
+      chatClient as unknown as ChatClient,
+    )
+  })
+
+  afterEach(async () => {
+    await db.close()
+  })
+
+  function mockLog(messages: ChatMessage[]) {
+    chatClient.getLog
+      .mockResolvedValueOnce({ cursor: 'cursor2', messages })
+      .mockResolvedValue({ cursor: undefined, messages: [] })
+  }
+
+  async function saveBobThread() {
+    await db.saveDirectMessageThread({
+      userDid: ALICE,
+      apActorId: 'https://remote.example/users/bob',
+      apActorInbox: 'https://remote.example/users/bob/inbox',
+      lastNoteId: 'https://remote.example/notes/dm-1',
+      updatedAt: new Date().toISOString(),
+    })
+  }
+
+  it('should skip the existing chat log on the first poll', async () => {
+    await saveBobThread()
+    mockLog([chatMessage()])
+
+    await processor.poll()
+
+    expect(sendActivity).not.toHaveBeenCalled()
+    expect((await db.getChatCursor())?.cursor).toBe('cursor2')
+  })
+
+  it('should skip all of a chat log longer than one poll reads', async () => {
+    await saveBobThread()
+    for (let page = 1; page <= 15; page++) {
+      chatClient.getLog.mockResolvedValueOnce({
+        cursor: `cursor${page}`,
+        messages: [chatMessage({ id: `msg-${page}` })],
+      })
+    }
+    chatClient.getLog.mockResolvedValue({ cursor: undefined, messages: [] })
+
+    await processor.poll()
+
+    expect(chatClient.getLog).toHaveBeenCalledTimes(16)
+    expect(sendActivity).not.toHaveBeenCalled()
+    expect((await db.getChatCursor())?.cursor).toBe('cursor15')
+
+    await processor.poll()
+
+    expect(chatClient.getLog).toHaveBeenLastCalledWith('cursor15')
+    expect(sendActivity).not.toHaveBeenCalled()
+  })
+
+  it('should send messages written after a first poll of an empty log', async () => {
+    await saveBobThread()
+    chatClient.getLog.mockResolvedValueOnce({ cursor: undefined, messages: [] })
+
+    await processor.poll()
+
+    mockLog([chatMessage()])
+    await processor.poll()
+
+    expect(chatClient.getLog).toHaveBeenNthCalledWith(2, undefined)
+    expect(sendActivity).toHaveBeenCalledTimes(1)
+    expect((await db.getChatCursor())?.cursor).toBe('cursor2')
+  })
+
+  it('should answer the last Fediverse actor who sent a direct message', async () => {
+    await db.saveChatCursor('cursor1')
+    await saveBobThread()
+    mockLog([chatMessage()])
+
+    await processor.poll()
+
+    expect(chatClient.getLog).toHaveBeenCalledWith('cursor1')
+    expect(sendActivity).toHaveBeenCalledTimes(1)
+    const [sender, recipient, activity] = sendActivity.mock.calls[0]
+    expect(sender).toEqual({ identifier: ALICE })
+    expect(recipient.id.href).toBe('https://remote.example/users/bob')
+    expect(recipient.inboxId.href).toBe(
+      'https://remote.example/users/bob/inbox',
+    )
+
+    expect(activity).toBeInstanceOf(Create)
+    const note = (await (activity as Create).getObject()) as Note
+    expect(note.toIds.map((id) => id.href)).toEqual([
+      'https://remote.example/users/bob',
+    ])
+    expect(note.replyTargetId?.href).toBe('https://remote.example/notes/dm-1')
+    expect(note.content?.toString()).toContain('Sure, what is up?')
+    expect(note.content?.toString()).toContain(
+      'href="https://remote.example/users/bob" class="u-url mention"',
+    )
+    expect((await db.getChatCursor())?.cursor).toBe('cursor2')
+  })
+
+  it('should send messages starting with a handle to that actor', async () => {
+    await db.saveChatCursor('cursor1')
+    await saveBobThread()
+    await db.saveRemoteActor({
+      acct: 'carol@other.example',
+      actorUri: 'https://other.example/users/carol',
+      actorInbox: 'https://other.example/users/carol/inbox',
+      actorSharedInbox: null,
+      fetchedAt: new Date().toISOString(),
+    })
+    mockLog([chatMessage({ text: '@carol@other.example Hello Carol!' })])
+
+    await processor.poll()
+
+    const [, recipient, activity] = sendActivity.mock.calls[0]
+    expect(recipient.id.href).toBe('https://other.example/users/carol')
+    const note = (await (activity as Create).getObject()) as Note
+    expect(note.replyTargetId).toBeNull()
+    expect(note.content?.toString()).toContain('Hello Carol!')
+    expect(note.content?.toString()).not.toContain('other.example Hello')
+  })
+
+  it('should tell the user when there is nobody to answer', async () => {
+    await db.saveChatCursor('cursor1')
+    mockLog([chatMessage()])
+
+    await processor.poll()
+
+    expect(sendActivity).not.toHaveBeenCalled()
+    expect(chatClient.sendDm).toHaveBeenCalledWith(
+      ALICE,
+      expect.stringContaining('was not delivered'),
+    )
+  })
+
+  it('should tell the user when their message could not be sent', async () => {
+    await db.saveChatCursor('cursor1')
+    await saveBobThread()
+    sendActivity.mockRejectedValueOnce(new Error('inbox unreachable'))
+    mockLog([chatMessage()])
+
+    await processor.poll()
+
+    expect(chatClient.sendDm).toHaveBeenCalledWith(
+      ALICE,
+      expect.stringContaining('could not be delivered'),
+    )
+    expect((await db.getChatCursor())?.cursor).toBe('cursor2')
+  })
+
+  it('should ignore messages sent by the bridge account', async () => {
+    await db.saveChatCursor('cursor1')
+    await saveBobThread()
+    mockLog([chatMessage({ senderDid: BRIDGE })])
+
+    await processor.poll()
+
+    expect(sendActivity).not.toHaveBeenCalled()
+    expect(chatClient.sendDm).not.toHaveBeenCalled()
+  })
+})
@@ -1,8 +1,20 @@
+import {
+  isLogCreateMessage,
+  isMessageView,
+} from '@atproto/api/dist/client/types/chat/bsky/convo/defs'
 import type { BaseAccountManager } from '../account-manager'
 import { logger } from '../logger'
 
 const CHAT_PROXY = 'did:web:api.bsky.chat#bsky_chat'
 
+export interface ChatMessage {
+  convoId: string
+  id: string
+  senderDid: string
+  text: string
+  sentAt: string
+}
+
 /**
  * Sends Bluesky DMs via the chat API using the bridge account's agent.
  * Proxies through the PDS to the chat service.
@@ -41,4 +53,37 @@ export class ChatClient {
       return false
     }
   }
+
+  /**
+   * Read the bridge account's chat log after `cursor`. Returns the messages
+   * created in any of its conversations and the cursor to continue from,
+   * which is unset once the end of the log is reached.
+   */
+  async getLog(
+    cursor?: string,
+  ): Promise<{ cursor?: string; messages: ChatMessage[] }> {
+    const agent = await this.accountManager.getAgent()
+    const res = await agent.chat.bsky.convo.getLog(
+      { cursor },
+      { headers: { 'atproto-proxy': CHAT_PROXY } },
+    )
+
+    const messages: ChatMessage[] = []
+    for (const log of res.data.logs) {
+      if (isLogCreateMessage(log) && isMessageView(log.message)) {
+        messages.push({
+          convoId: log.convoId,
+          id: log.message.id,
+          senderDid: log.message.sender.did,
+          text: log.message.text,
+          sentAt: log.message.sentAt,
+        })
+      }
+    }
+
+    return {
+      cursor: res.data.logs.length > 0 ? res.data.cursor : undefined,
+      messages,
+    }
+  }
 }
@@ -1,2 +1,6 @@
-export { ChatClient } from './chat-client'
+export { ChatClient, type ChatMessage } from './chat-client'
 export { DmNotificationProcessor } from './processor'
+export {
+  formatDirectMessage,
+  formatPrivateReplyMessage,
+} from './message-formatter'
@@ -1,9 +1,13 @@
 const MAX_POST_TEXT_LENGTH = 60
 const MAX_ACTOR_NAMES = 3
+// Bluesky chat messages are limited to 1000 graphemes
+const MAX_MESSAGE_TEXT_LENGTH = 800
 
 export interface PostEngagement {
   postAtUri: string
   postText: string | null
+  /** The post is a Bluesky reply to the user, relayed to the Fediverse */
+  isReply?: boolean
   likes: string[] // actor display names like @alice@mastodon.social
   reposts: string[] // actor display names
 }
@@ -16,7 +20,9 @@ export function formatNotificationMessage(posts: PostEngagement[]): string {
     const preview = post.postText
       ? truncateText(post.postText, MAX_POST_TEXT_LENGTH)
       : '(post)'
-    lines.push(`"${preview}"`)
+    lines.push(
+      post.isReply ? `Reply to your post: "${preview}"` : `"${preview}"`,
+    )
 
     if (post.likes.length > 0) {
       const names = formatActorList(post.likes)
@@ -34,6 +40,49 @@ export function formatNotificationMessage(posts: PostEngagement[]): string {
   return lines.join('\n')
 }
 
+export interface PrivateReply {
+  postText: string | null
+  actorHandle: string // e.g. @alice@mastodon.social
+  replyText: string
+  replyUrl: string | null
+}
+
+export function formatPrivateReplyMessage(reply: PrivateReply): string {
+  const lines: string[] = [
+    `${reply.actorHandle} replied privately to your post:`,
+  ]
+
+  if (reply.postText) {
+    lines.push(`"${truncateText(reply.postText, MAX_POST_TEXT_LENGTH)}"`)
+  }
+  lines.push('', truncateText(reply.replyText, MAX_MESSAGE_TEXT_LENGTH))
+  if (reply.replyUrl) {
+    lines.push('', reply.replyUrl)
+  }
+
+  return lines.join('\n')
+}
+
+export interface DirectMessage {
+  actorHandle: string // e.g. @alice@mastodon.social
+  text: string
+  url: string | null
+}
+
+export function formatDirectMessage(message: DirectMessage): string {
+  const lines: string[] = [
+    `${message.actorHandle} sent you a direct message:`,
+    '',
+    truncateText(message.text, MAX_MESSAGE_TEXT_LENGTH),
+  ]
+  if (message.url) {
+    lines.push('', message.url)
+  }
+  lines.push('', `Reply here to answer ${message.actorHandle}.`)
+
+  return lines.join('\n')
+}
+
 function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text
   return text.slice(0, maxLength - 3) + '...'
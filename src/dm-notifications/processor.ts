@@ -188,7 +188,10 @@ export class DmNotificationProcessor {
     const postEngagements: PostEngagement[] = []
 
     for (const [postAtUri, postData] of byPost) {
-      const postText = await this.fetchPostText(postAtUri)
+      // Engagement with a reply the Bluesky bridge account relayed is
+      // notified to the user it answers, not to the reply's author
+      const isReply = new AtUri(postAtUri).host !== authorDid
+      const postText = await this.fetchPostText(postAtUri, isReply)
 
       const likeNames = await Promise.all(
         postData.likes.map((l) => actorResolver.resolve(l.apActorId)),
@@ -200,6 +203,7 @@ export class DmNotificationProcessor {
       postEngagements.push({
         postAtUri,
         postText,
+        isReply,
         likes: likeNames,
         reposts: repostNames,
       })
@@ -220,14 +224,14 @@ export class DmNotificationProcessor {
     return success
   }
 
-  private async fetchPostText(postAtUri: string): Promise<string | null> {
+  private async fetchPostText(
+    postAtUri: string,
+    isRemote = false,
+  ): Promise<string | null> {
     try {
       const uri = new AtUri(postAtUri)
-      const record = await this.ctx.pdsClient.getRecord(
-        uri.host,
-        uri.collection,
-        uri.rkey,
-      )
+      const client = isRemote ? this.ctx.appViewClient : this.ctx.pdsClient
+      const record = await client.getRecord(uri.host, uri.collection, uri.rkey)
       if (record) {
         const value = record.value as { text?: string }
         return value.text ?? null
@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest'
-import { formatNotificationMessage, PostEngagement } from '../message-formatter'
+import {
+  formatDirectMessage,
+  formatNotificationMessage,
+  formatPrivateReplyMessage,
+  PostEngagement,
+} from '../message-formatter'
 
 describe('formatNotificationMessage', () => {
   it('should format a single like', () => {
@@ -109,6 +114,22 @@ describe('formatNotificationMessage', () => {
     expect(result).toContain('"(post)"')
   })
 
+  it('should mark replies to the user', () => {
+    const posts: PostEngagement[] = [
+      {
+        postAtUri: 'at://did:plc:replier/app.bsky.feed.post/abc',
+        postText: 'Great point!',
+        isReply: true,
+        likes: ['@alice@mastodon.social'],
+        reposts: [],
+      },
+    ]
+
+    const result = formatNotificationMessage(posts)
+
+    expect(result).toContain('Reply to your post: "Great point!"')
+  })
+
   it('should truncate actor list beyond 3 names', () => {
     const posts: PostEngagement[] = [
       {
@@ -179,3 +200,59 @@ describe('formatNotificationMessage', () => {
     expect(result).toContain('1 repost from @bob@fosstodon.org')
   })
 })
+
+describe('formatPrivateReplyMessage', () => {
+  it('should quote the post and include the reply with its link', () => {
+    const result = formatPrivateReplyMessage({
+      postText: 'Hello world!',
+      actorHandle: '@alice@mastodon.social',
+      replyText: 'Hi back, quietly',
+      replyUrl: 'https://mastodon.social/@alice/1',
+    })
+
+    expect(result).toBe(
+      [
+        '@alice@mastodon.social replied privately to your post:',
+        '"Hello world!"',
+        '',
+        'Hi back, quietly',
+        '',
+        'https://mastodon.social/@alice/1',
+      ].join('\n'),
+    )
+  })
+
+  it('should truncate long replies', () => {
+    const result = formatPrivateReplyMessage({
+      postText: null,
+      actorHandle: '@alice@mastodon.social',
+      replyText: 'a'.repeat(2000),
+      replyUrl: null,
+    })
+
+    expect(result.length).toBeLessThan(1000)
+    expect(result).toMatch(/\.\.\.$/)
+  })
+})
+
+describe('formatDirectMessage', () => {
+  it('should attribute the message and explain how to answer', () => {
+    const result = formatDirectMessage({
+      actorHandle: '@alice@mastodon.social',
+      text: 'Are you coming tonight?',
+      url: 'https://mastodon.social/@alice/2',
+    })
+
+    expect(result).toBe(
+      [
+        '@alice@mastodon.social sent you a direct message:',
+        '',
+        'Are you coming tonight?',
+        '',
+        'https://mastodon.social/@alice/2',
+        '',
+        'Reply here to answer @alice@mastodon.social.',
+      ].join('\n'),
+    )
+  })
+})
@@ -47,6 +47,13 @@ function createMockCtx(db: APDatabase) {
         value: { text: 'Hello world!' },
       }),
     },
+    appViewClient: {
+      getRecord: vi.fn().mockResolvedValue({
+        uri: 'at://did:plc:replier/app.bsky.feed.post/reply',
+        cid: 'cid456',
+        value: { text: 'Great point!' },
+      }),
+    },
     federation: {
       createContext: vi.fn().mockReturnValue({
         getDocumentLoader: vi.fn().mockResolvedValue({}),
@@ -250,4 +257,24 @@ describe('DmNotificationProcessor', () => {
     expect(message).toContain('like')
     expect(message).toContain('repost')
   })
+
+  it('should notify the answered user of engagement with a relayed reply', async () => {
+    await db.createLike({
+      activityId: 'https://mastodon.social/likes/1',
+      postAtUri: 'at://did:plc:replier/app.bsky.feed.post/reply',
+      postAuthorDid: 'did:plc:author1',
+      apActorId: 'https://mastodon.social/users/alice',
+      createdAt: new Date(Date.now() - 1000).toISOString(),
+    })
+
+    await processor.poll()
+
+    expect(mockChatClient.sendDm).toHaveBeenCalledTimes(1)
+    const [recipient, message] = (
+      mockChatClient.sendDm as ReturnType<typeof vi.fn>
+    ).mock.calls[0] as [string, string]
+    expect(recipient).toBe('did:plc:author1')
+    expect(message).toContain('Reply to your post: "Great point!"')
+    expect(message).toContain('1 like from @alice@mastodon.social')
+  })
 })
@@ -1,10 +1,74 @@
 import { BlobRef } from '@atproto/lexicon'
 import { ensureValidDid } from '@atproto/syntax'
-import { exportJwk, generateCryptoKeyPair, importJwk } from '@fedify/fedify'
+import {
+  exportJwk,
+  generateCryptoKeyPair,
+  importJwk,
+  type Context,
+} from '@fedify/fedify'
 import { Endpoints, Image, Person } from '@fedify/vocab'
 import { AppContext } from '../context'
 import { getWideEvent } from '../logging'
 
+/**
+ * Build the ActivityPub Person for a local account from its current
+ * Bluesky profile. Shared by the actor dispatcher and Update(Person)
+ * delivery so both always describe the actor the same way.
+ */
+export async function buildPerson(
+  ctx: AppContext,
+  fedCtx: Context<void>,
+  account: { did: string; handle: string },
+): Promise<Person> {
+  const identifier = account.did
+  const profile = await ctx.pdsClient.getProfile(identifier)
+
+  const buildImage = (type: 'avatar' | 'banner', blob?: BlobRef) => {
+    if (!blob) return undefined
+    const url = ctx.pdsClient.getImageUrl(identifier, blob.ref.toString(), type)
+    return { url: new URL(url), mediaType: blob.mimeType }
+  }
+
+  const avatar = profile?.avatar
+    ? buildImage('avatar', profile.avatar)
+    : undefined
+  const banner = profile?.banner
+    ? buildImage('banner', profile.banner)
+    : undefined
+
+  const keyPairs = await fedCtx.getActorKeyPairs(identifier)
+
+  return new Person({
+    id: fedCtx.getActorUri(identifier),
+    alias: new URL(`at://${encodeURIComponent(account.did)}`),
+    name: profile?.displayName,
+    summary: profile?.description,
+    preferredUsername: account.handle.split('.').at(0),
+    icon: avatar
+      ? new Image({
+          url: avatar.url,
+          mediaType: avatar.mediaType,
+        })
+      : undefined,
+    image: banner
+      ? new Image({
+          url: banner.url,
+          mediaType: banner.mediaType,
+        })
+      : undefined,
+    url: new URL(account.handle, 'https://bsky.app/profile/'),
+    inbox: fedCtx.getInboxUri(identifier),
+    outbox: fedCtx.getOutboxUri(identifier),
+    followers: fedCtx.getFollowersUri(identifier),
+    following: fedCtx.getFollowingUri(identifier),
+    endpoints: new Endpoints({
+      sharedInbox: fedCtx.getInboxUri(),
+    }),
+    publicKey: keyPairs[0]?.cryptographicKey,
+    assertionMethods: keyPairs.map((keyPair) => keyPair.multikey),
+  })
+}
+
 export function setupActorDispatcher(ctx: AppContext) {
   ctx.federation
     .setActorDispatcher(`/users/{+identifier}`, async (fedCtx, identifier) => {
@@ -38,57 +102,13 @@ export function setupActorDispatcher(ctx: AppContext) {
 
         event?.set('actor.handle', account.handle)
 
-        const profile = await ctx.pdsClient.getProfile(identifier)
-
-        const buildImage = (type: 'avatar' | 'banner', blob?: BlobRef) => {
-          if (!blob) return undefined
-          const url = ctx.pdsClient.getImageUrl(
-            identifier,
-            blob.ref.toString(),
-            type,
-          )
-          return { url: new URL(url), mediaType: blob.mimeType }
-        }
-
-        const avatar = profile?.avatar
-          ? buildImage('avatar', profile.avatar)
-          : undefined
-        const banner = profile?.banner
-          ? buildImage('banner', profile.banner)
-          : undefined
-
-        const keyPairs = await fedCtx.getActorKeyPairs(identifier)
+        const person = await buildPerson(ctx, fedCtx, {
+          did: account.did,
+          handle: account.handle,
+        })
         event?.set('dispatch.result', 'success')
 
-        return new Person({
-          id: fedCtx.getActorUri(identifier),
-          alias: new URL(`at://${encodeURIComponent(account.did)}`),
-          name: profile?.displayName,
-          summary: profile?.description,
-          preferredUsername: account.handle.split('.').at(0),
-          icon: avatar
-            ? new Image({
-                url: avatar.url,
-                mediaType: avatar.mediaType,
-              })
-            : undefined,
-          image: banner
-            ? new Image({
-                url: banner.url,
-                mediaType: banner.mediaType,
-              })
-            : undefined,
-          url: new URL(account.handle, 'https://bsky.app/profile/'),
-          inbox: fedCtx.getInboxUri(identifier),
-          outbox: fedCtx.getOutboxUri(identifier),
-          followers: fedCtx.getFollowersUri(identifier),
-          following: fedCtx.getFollowingUri(identifier),
-          endpoints: new Endpoints({
-            sharedInbox: fedCtx.getInboxUri(),
-          }),
-          publicKey: keyPairs[0].cryptographicKey,
-          assertionMethods: keyPairs.map((keyPair) => keyPair.multikey),
-        })
+        return person
       } catch (err) {
         event?.setError(err instanceof Error ? err : new Error(String(err)))
         event?.set('dispatch.result', 'error')
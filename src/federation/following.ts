@@ -45,6 +45,18 @@ export function setupFollowingDispatcher(ctx: AppContext) {
               fedCtx.getActorUri((record.value as { subject: string }).subject),
             )
 
+          // Fediverse accounts followed through the outbound follow API are
+          // not backed by follow records, so list them on the first page.
+          if (!cursor) {
+            const outboundFollows = await ctx.db.getOutboundFollows(
+              identifier,
+              'accepted',
+            )
+            items.unshift(
+              ...outboundFollows.map((follow) => new URL(follow.actorUri)),
+            )
+          }
+
           event?.set('following.count', items.length)
           event?.set('following.next_cursor', nextCursor)
           event?.set('dispatch.result', 'success')
@@ -80,10 +92,15 @@ export function setupFollowingDispatcher(ctx: AppContext) {
         )
 
         const localAccounts = await ctx.pdsClient.getAccounts(followedDids)
+        const outboundFollows = await ctx.db.getOutboundFollows(
+          identifier,
+          'accepted',
+        )
+        const totalCount = localAccounts.size + outboundFollows.length
 
-        event?.set('following.total_count', localAccounts.size)
+        event?.set('following.total_count', totalCount)
         event?.set('dispatch.result', 'success')
-        return localAccounts.size
+        return totalCount
       } catch (err) {
         event?.setError(err instanceof Error ? err : new Error(String(err)))
         event?.set('dispatch.result', 'error')
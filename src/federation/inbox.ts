@@ -1,4 +1,9 @@
+import {
+  isRecord as isPostRecord,
+  type Main as Post,
+} from '@atproto/api/dist/client/types/app/bsky/feed/post'
 import { AtUri } from '@atproto/syntax'
+import type { Context } from '@fedify/fedify'
 import {
   Accept,
   Announce,
@@ -6,13 +11,35 @@ import {
   Delete,
   Follow,
   Like,
-  Note,
+  Link,
+  Reject,
   Undo,
+  Update,
+  type Activity,
+  type Actor,
+  type Object as APObject,
 } from '@fedify/vocab'
+import { Temporal } from '@js-temporal/polyfill'
 import escapeHtml from 'escape-html'
 import { AppContext } from '../context'
-import { postConverter } from '../conversion'
+import {
+  getPollEndTime,
+  getThreadgate,
+  isLocalUser,
+  parseHtmlContent,
+  parsePoll,
+  splitPostRecord,
+  threadgateAllowsReply,
+  truncatePostRecord,
+  type RecordConverter,
+  type ToRecordContext,
+} from '../conversion'
+import {
+  formatDirectMessage,
+  formatPrivateReplyMessage,
+} from '../dm-notifications'
 import { getWideEvent } from '../logging'
+import { isPublic, recordConverterRegistry } from './outbox'
 
 /**
  * Validate URL scheme (reject javascript:, data:, etc.)
@@ -26,8 +53,613 @@ function isSafeUrl(url: string): boolean {
   }
 }
 
+/**
+ * A record converted from an inbound object. Records with a reply ref are
+ * threaded like posts.
+ */
+type InboundRecord = Record<string, unknown> & {
+  reply?: Post['reply']
+  createdAt?: string
+}
+
+/**
+ * Convert an inbound object to a record with the converter that mapped it.
+ */
+async function toInboundRecord(
+  ctx: AppContext,
+  fedCtx: Context<void>,
+  converter: RecordConverter,
+  identifier: string,
+  object: APObject,
+): Promise<{ uri: string; cid: string; value: InboundRecord } | null> {
+  const record = await converter.toRecord(
+    fedCtx,
+    identifier,
+    object,
+    toRecordOptions(ctx),
+  )
+  if (!record || typeof record.value !== 'object' || record.value === null) {
+    return null
+  }
+  return {
+    uri: record.uri,
+    cid: record.cid,
+    value: record.value as InboundRecord,
+  }
+}
+
+/**
+ * Check whether a converted record is a post. Its text may still exceed
+ * Bluesky's limits, fitting it comes later.
+ */
+function isPost(value: unknown): value is Post {
+  return (
+    isPostRecord(value) &&
+    'text' in value &&
+    typeof value.text === 'string' &&
+    'createdAt' in value &&
+    typeof value.createdAt === 'string'
+  )
+}
+
+/**
+ * Build a copy of a remote object whose content is prefixed with an
+ * attribution line linking to the author's profile, e.g.
+ * "@bob@example.com replied:". Everything else, such as tags, attachments
+ * and quotes, is kept.
+ */
+function buildAttributedObject(
+  actor: Actor,
+  object: APObject,
+  verb: 'replied' | 'posted' = 'replied',
+): { object: APObject; actorHandle: string } {
+  const actorId = actor.id
+  const actorUsername = actor.preferredUsername?.toString() ?? 'unknown'
+  let actorHandle = actorUsername
+  let actorProfileUrl: string | undefined
+  if (actorId) {
+    actorHandle = `@${actorUsername}@${actorId.hostname}`
+    actorProfileUrl = `${actorId.origin}/@${actorUsername}`
+  }
+
+  const originalContent = object.content ?? ''
+  const safeHandle = escapeHtml(actorHandle)
+  const actorLink =
+    actorProfileUrl && isSafeUrl(actorProfileUrl)
+      ? `<a href="${escapeHtml(actorProfileUrl)}">${safeHandle}</a>`
+      : safeHandle
+  const replyPrefixHtml = `<p>${actorLink} ${verb}:</p>`
+  return {
+    object: object.clone({ content: replyPrefixHtml + originalContent }),
+    actorHandle,
+  }
+}
+
+/**
+ * Options for converting remote notes into posts by the bridge account.
+ */
+function toRecordOptions(ctx: AppContext): ToRecordContext {
+  return {
+    pdsClient: ctx.pdsClient,
+    uploadBlob: (data, mimeType) =>
+      ctx.mastodonBridgeAccount.uploadBlob(data, mimeType),
+    db: ctx.db,
+    appViewClient: ctx.appViewClient,
+    fetchLinkPreviews: ctx.cfg.linkPreviews.enabled,
+    allowPrivateAddress: ctx.cfg.allowPrivateAddress,
+  }
+}
+
+/**
+ * Fit a converted post into Bluesky's length limit according to the
+ * configured long post mode: either a self-reply thread, or a single post
+ * linking to the original note. Other records are kept as they are.
+ */
+function fitRecord(
+  ctx: AppContext,
+  record: InboundRecord,
+  object: APObject,
+): InboundRecord[] {
+  if (!isPost(record)) {
+    return [record]
+  }
+  if (ctx.cfg.longPosts.mode === 'truncate') {
+    const url = object.url instanceof Link ? object.url.href : object.url
+    const readMoreUrl = url ?? object.id
+    if (readMoreUrl) {
+      return [truncatePostRecord(record, readMoreUrl.href)]
+    }
+  }
+  return splitPostRecord(record)
+}
+
+/**
+ * Get the DIDs of the local users an object is addressed to as a direct
+ * message, i.e. one with no public or followers audience.
+ */
+function getDirectMessageRecipients(
+  ctx: AppContext,
+  fedCtx: Context<void>,
+  object: APObject,
+  actor: Actor,
+): string[] {
+  const audience = [...object.toIds, ...object.ccIds]
+  const followersId = actor.followersId
+  if (
+    isPublic(object) ||
+    (followersId && audience.some((id) => id.href === followersId.href))
+  ) {
+    return []
+  }
+
+  const recipients: string[] = []
+  for (const id of audience) {
+    if (id.origin !== fedCtx.canonicalOrigin) {
+      continue
+    }
+    const parsed = fedCtx.parseUri(id)
+    if (
+      parsed?.type === 'actor' &&
+      parsed.identifier !== ctx.mastodonBridgeAccount.did &&
+      !recipients.includes(parsed.identifier)
+    ) {
+      recipients.push(parsed.identifier)
+    }
+  }
+  return recipients
+}
+
+/**
+ * Forward a Fediverse direct message to its local recipients as a chat
+ * message from the bridge account. The sender is remembered so that the
+ * recipients' answers in the chat can be sent back to them.
+ */
+async function forwardDirectMessage(
+  ctx: AppContext,
+  actor: Actor,
+  object: APObject,
+  recipientDids: string[],
+): Promise<void> {
+  const event = getWideEvent()
+  event?.set('activity.direct_message', true)
+
+  const actorId = actor.id
+  const actorInboxId = actor.inboxId
+  if (!actorId || !actorInboxId || !object.id) {
+    event?.set('activity.ignored_reason', 'missing_required_fields')
+    return
+  }
+
+  const { actorHandle } = buildAttributedObject(actor, object)
+  const url = object.url instanceof Link ? object.url.href : object.url
+  const message = formatDirectMessage({
+    actorHandle,
+    text: parseHtmlContent(object.content?.toString() ?? '').text,
+    url: (url ?? object.id).href,
+  })
+
+  let sentCount = 0
+  for (const did of recipientDids) {
+    if (!(await isLocalUser(ctx.pdsClient, did))) {
+      continue
+    }
+    if (!(await ctx.chatClient.sendDm(did, message))) {
+      continue
+    }
+    await ctx.db.saveDirectMessageThread({
+      userDid: did,
+      apActorId: actorId.href,
+      apActorInbox: actorInboxId.href,
+      lastNoteId: object.id.href,
+      updatedAt: new Date().toISOString(),
+    })
+    sentCount++
+  }
+
+  event?.set('activity.direct_message_sent_count', sentCount)
+  if (sentCount === 0) {
+    event?.set('activity.ignored_reason', 'direct_message_not_delivered')
+  }
+}
+
+/**
+ * Check the threadgate on the thread root before bridging a reply to it.
+ * Follow rules are matched against the Fediverse author of the reply.
+ */
+async function isReplyAllowed(
+  ctx: AppContext,
+  rootUri: string,
+  actorId: URL | null,
+): Promise<boolean> {
+  const rootAuthorDid = new AtUri(rootUri).host
+  const isLocal = await isLocalUser(ctx.pdsClient, rootAuthorDid)
+  const threadgate = await getThreadgate(
+    isLocal ? ctx.pdsClient : ctx.appViewClient,
+    rootUri,
+  )
+
+  // Follows are only known for roots written by local users
+  return threadgateAllowsReply(threadgate, {
+    isFollowedByAuthor: async () => {
+      if (!isLocal || !actorId) {
+        return false
+      }
+      const follow = await ctx.db.getOutboundFollow(rootAuthorDid, actorId.href)
+      return follow?.status === 'accepted'
+    },
+    followsAuthor: async () => {
+      if (!isLocal || !actorId) {
+        return false
+      }
+      return !!(await ctx.db.getFollow(rootAuthorDid, actorId.href))
+    },
+  })
+}
+
+/**
+ * Handle a reply that is not addressed to the public, which must not become
+ * a public Bluesky post. Depending on the private reply mode it is either
+ * dropped or forwarded to the local user it answers as a chat message from
+ * the bridge account. Replies with no local user to tell are dropped.
+ */
+async function deliverPrivateReply(
+  ctx: AppContext,
+  postAtUri: AtUri,
+  recipientDid: string | null,
+  actorHandle: string,
+  object: APObject,
+): Promise<void> {
+  const event = getWideEvent()
+  event?.set('activity.private_reply', true)
+
+  if (ctx.cfg.privateReplies.mode === 'drop' || !recipientDid) {
+    event?.set('activity.ignored_reason', 'not_public')
+    return
+  }
+
+  const post = await ctx.pdsClient.getRecord(
+    postAtUri.host,
+    postAtUri.collection,
+    postAtUri.rkey,
+  )
+  const url = object.url instanceof Link ? object.url.href : object.url
+  const message = formatPrivateReplyMessage({
+    postText: (post?.value as { text?: string } | undefined)?.text ?? null,
+    actorHandle,
+    replyText: parseHtmlContent(object.content?.toString() ?? '').text,
+    replyUrl: (url ?? object.id)?.href ?? null,
+  })
+
+  const sent = await ctx.chatClient.sendDm(recipientDid, message)
+  if (!sent) {
+    event?.set('activity.ignored_reason', 'private_reply_dm_failed')
+    return
+  }
+  event?.set('activity.private_reply_sent', true)
+}
+
+/**
+ * Record a vote on a local user's poll. Mastodon answers a Question with a
+ * content-less Note named after the chosen option, replying to the poll.
+ * Returns false when the note is not such an answer.
+ */
+async function recordPollVote(
+  ctx: AppContext,
+  fedCtx: Context<void>,
+  object: APObject,
+  actorId: URL | null,
+): Promise<boolean> {
+  const event = getWideEvent()
+  const option = object.name?.toString()
+  const replyTargetId = object.replyTargetId
+  if (!option || object.content || !replyTargetId) {
+    return false
+  }
+
+  const parsed = fedCtx.parseUri(replyTargetId)
+  if (
+    replyTargetId.origin !== fedCtx.canonicalOrigin ||
+    !parsed ||
+    parsed.type !== 'object'
+  ) {
+    return false
+  }
+
+  const urlPath = replyTargetId.pathname
+  const pollAtUri = new AtUri(
+    urlPath.slice(urlPath.indexOf('posts/') + 'posts/'.length),
+  )
+  const record = await ctx.pdsClient.getRecord(
+    pollAtUri.host,
+    pollAtUri.collection,
+    pollAtUri.rkey,
+  )
+  const post = record?.value as Partial<Post> | undefined
+  const poll = post?.text ? parsePoll(post.text) : null
+  if (!poll || !post?.createdAt) {
+    return false
+  }
+
+  event?.set('activity.poll_uri', pollAtUri.toString())
+
+  if (!actorId) {
+    event?.set('activity.ignored_reason', 'missing_required_fields')
+    return true
+  }
+  if (!poll.options.includes(option)) {
+    event?.set('activity.ignored_reason', 'unknown_poll_option')
+    return true
+  }
+  const endTime = getPollEndTime(Temporal.Instant.from(post.createdAt))
+  if (Temporal.Instant.compare(endTime, Temporal.Now.instant()) <= 0) {
+    event?.set('activity.ignored_reason', 'poll_closed')
+    return true
+  }
+
+  await ctx.db.createPollVote({
+    pollAtUri: pollAtUri.toString(),
+    apActorId: actorId.href,
+    option,
+    apNoteId: object.id?.href ?? '',
+    createdAt: new Date().toISOString(),
+  })
+  event?.set('activity.poll_vote_recorded', true)
+  return true
+}
+
+/**
+ * Find the post a Like or Announce counts toward and the local user to
+ * notify of it. Posts of local users count for their author. Replies the
+ * Bluesky bridge account relayed count for the original Bluesky reply and
+ * are notified to the local user it answers.
+ */
+async function resolveEngagedPost(
+  ctx: AppContext,
+  postAtUri: AtUri,
+): Promise<{ postAtUri: string; postAuthorDid: string } | null> {
+  const event = getWideEvent()
+  if (await ctx.pdsClient.getAccount(postAtUri.host)) {
+    return { postAtUri: postAtUri.toString(), postAuthorDid: postAtUri.host }
+  }
+
+  const externalReply = await ctx.db.getExternalReply(postAtUri.toString())
+  if (!externalReply) {
+    return null
+  }
+  event?.set('activity.external_reply', externalReply.atUri)
+  return {
+    postAtUri: externalReply.atUri,
+    postAuthorDid: new AtUri(externalReply.parentAtUri).host,
+  }
+}
+
+/**
+ * Find the Bluesky post a Fediverse reply answers and the local user to tell
+ * about private replies to it. Besides posts of local users, replies may
+ * answer Bluesky replies the bridge relayed, or Fediverse notes bridged by
+ * the bridge account, which have no local author.
+ */
+async function resolveReplyTarget(
+  ctx: AppContext,
+  fedCtx: Context<void>,
+  replyTargetId: URL,
+): Promise<{ postAtUri: AtUri; postAuthorDid: string | null } | null> {
+  const event = getWideEvent()
+  const parsed = fedCtx.parseUri(replyTargetId)
+  if (parsed?.type === 'object') {
+    const urlPath = replyTargetId.pathname
+    const target = await resolveEngagedPost(
+      ctx,
+      new AtUri(urlPath.slice(urlPath.indexOf('posts/') + 'posts/'.length)),
+    )
+    if (!target) {
+      event?.set('activity.ignored_reason', 'user_not_found')
+      return null
+    }
+    return {
+      postAtUri: new AtUri(target.postAtUri),
+      postAuthorDid: target.postAuthorDid,
+    }
+  }
+
+  const mapping = await ctx.db.getPostMappingByApNoteId(replyTargetId.href)
+  if (!mapping) {
+    event?.set('activity.ignored_reason', 'reply_target_not_local')
+    return null
+  }
+  event?.set('activity.bridged_reply_target', mapping.atUri)
+  return { postAtUri: new AtUri(mapping.atUri), postAuthorDid: null }
+}
+
+/**
+ * Create the records of a bridged object with the bridge account, chaining
+ * any posts after the first as self-replies. Each record is mapped to the
+ * object as soon as it is created, so a failure part way leaves no
+ * untracked records. The created records are returned in thread order, the
+ * first being the canonical one.
+ */
+async function createBridgedRecords(
+  ctx: AppContext,
+  collection: string,
+  records: InboundRecord[],
+  note: { apNoteId: string; apActorId: string; apActorInbox: string } | null,
+): Promise<{ uri: string; cid: string }[]> {
+  const createdAt = new Date().toISOString()
+  const created: { uri: string; cid: string }[] = []
+  for (const [index, chunk] of records.entries()) {
+    if (index > 0) {
+      chunk.reply = {
+        root: records[0].reply?.root ?? created[0],
+        parent: created[index - 1],
+      }
+    }
+    const result = await ctx.mastodonBridgeAccount.createRecord(
+      collection,
+      chunk,
+    )
+    created.push(result)
+    if (note) {
+      await ctx.db.createPostMapping({
+        ...note,
+        atUri: result.uri,
+        chunkIndex: index,
+        createdAt,
+      })
+    }
+  }
+  return created
+}
+
+/**
+ * Bridge a top-level public post from a Fediverse account that local users
+ * follow. The post is created by the bridge account and recorded in the
+ * timeline served by the feed generator.
+ */
+async function bridgeTimelinePost(
+  ctx: AppContext,
+  fedCtx: Context<void>,
+  create: Create,
+  converter: RecordConverter,
+  object: APObject,
+): Promise<void> {
+  const event = getWideEvent()
+
+  const bridgeDid = ctx.mastodonBridgeAccount.did
+  if (object.id === null || create.actorId === null || bridgeDid === null) {
+    event?.set('activity.ignored_reason', 'missing_required_fields')
+    return
+  }
+
+  event?.set('activity.actor_id', create.actorId.href)
+
+  if (!isPublic(object)) {
+    event?.set('activity.ignored_reason', 'not_public')
+    return
+  }
+
+  if (!(await ctx.db.hasAcceptedOutboundFollowers(create.actorId.href))) {
+    event?.set('activity.ignored_reason', 'actor_not_followed')
+    return
+  }
+
+  // The same Create may be delivered to several inboxes
+  if (await ctx.db.getPostMappingByApNoteId(object.id.href)) {
+    event?.set('activity.ignored_reason', 'already_bridged')
+    return
+  }
+
+  const actor = await create.getActor()
+  if (!actor || actor.id?.href !== create.actorId.href || !actor.inboxId) {
+    event?.set('activity.ignored_reason', 'could_not_fetch_actor')
+    return
+  }
+
+  const { object: attributed, actorHandle } = buildAttributedObject(
+    actor,
+    object,
+    'posted',
+  )
+  event?.set('activity.actor_handle', actorHandle)
+
+  const convertedRecord = await toInboundRecord(
+    ctx,
+    fedCtx,
+    converter,
+    bridgeDid,
+    attributed,
+  )
+
+  if (!convertedRecord) {
+    event?.set('activity.ignored_reason', 'conversion_failed')
+    return
+  }
+
+  const created = await createBridgedRecords(
+    ctx,
+    converter.collection,
+    fitRecord(ctx, convertedRecord.value, object),
+    {
+      apNoteId: object.id.href,
+      apActorId: create.actorId.href,
+      apActorInbox: actor.inboxId.href,
+    },
+  )
+  event?.set('activity.created_post_uri', created[0].uri)
+  event?.set('activity.created_post_count', created.length)
+
+  await ctx.db.createTimelinePost({
+    atUri: created[0].uri,
+    apNoteId: object.id.href,
+    apActorId: create.actorId.href,
+    createdAt: new Date().toISOString(),
+  })
+
+  event?.set('activity.timeline_post_created', true)
+}
+
+/**
+ * Store an inbound activity that engages with a local post, e.g. a Like or
+ * an Announce, with the converter registered for its type.
+ */
+async function receiveEngagement(
+  ctx: AppContext,
+  fedCtx: Context<void>,
+  activity: Activity,
+) {
+  const event = getWideEvent()
+  event?.set('activity.type', activity.constructor.name)
+  event?.set('activity.id', activity.id?.href)
+
+  try {
+    const converter = recordConverterRegistry.getByActivityType(activity)
+    if (!converter?.storeEngagement) {
+      event?.set('activity.ignored_reason', 'no_converter')
+      return
+    }
+
+    if (
+      activity.id === null ||
+      activity.actorId === null ||
+      activity.objectId === null
+    ) {
+      event?.set('activity.ignored_reason', 'missing_required_fields')
+      return
+    }
+
+    event?.set('activity.actor_id', activity.actorId.href)
+
+    const parsed = fedCtx.parseUri(activity.objectId)
+    if (!parsed || parsed.type !== 'object') {
+      event?.set('activity.ignored_reason', 'object_not_local_post')
+      return
+    }
+
+    const urlPath = activity.objectId.pathname
+    const postUri = urlPath.slice(urlPath.indexOf('posts/') + 'posts/'.length)
+    const target = await resolveEngagedPost(ctx, new AtUri(postUri))
+    if (!target) {
+      event?.set('activity.ignored_reason', 'user_not_found')
+      return
+    }
+    const { postAtUri, postAuthorDid } = target
+    event?.set('user.did', postAuthorDid)
+
+    await converter.storeEngagement(ctx.db, {
+      activityId: activity.id.href,
+      postAtUri,
+      postAuthorDid,
+      apActorId: activity.actorId.href,
+      createdAt: new Date().toISOString(),
+    })
+
+    event?.set('activity.stored_collection', converter.collection)
+  } catch (err) {
+    event?.setError(err instanceof Error ? err : new Error(String(err)))
+  }
+}
+
 export function setupInboxListeners(ctx: AppContext) {
-  ctx.federation
+  const listeners = ctx.federation
     .setInboxListeners('/users/{+identifier}/inbox', '/inbox')
     .setSharedKeyDispatcher(async () => {
       // Use the mastodon bridge account as the instance actor for signing shared inbox fetches
@@ -89,6 +721,80 @@ export function setupInboxListeners(ctx: AppContext) {
         event?.setError(err instanceof Error ? err : new Error(String(err)))
       }
     })
+    .on(Accept, async (_fedCtx, accept) => {
+      const event = getWideEvent()
+      event?.set('activity.type', 'Accept')
+      event?.set('activity.id', accept.id?.href)
+
+      try {
+        if (accept.actorId === null || accept.objectId === null) {
+          event?.set('activity.ignored_reason', 'missing_required_fields')
+          return
+        }
+
+        event?.set('activity.actor_id', accept.actorId.href)
+
+        const outboundFollow = await ctx.db.getOutboundFollowByActivityId(
+          accept.objectId.href,
+        )
+        if (!outboundFollow) {
+          event?.set('activity.ignored_reason', 'no_outbound_follow_found')
+          return
+        }
+
+        event?.set('user.did', outboundFollow.userDid)
+
+        if (outboundFollow.actorUri !== accept.actorId.href) {
+          event?.set('activity.ignored_reason', 'actor_mismatch')
+          return
+        }
+
+        await ctx.db.updateOutboundFollowStatus(
+          outboundFollow.activityId,
+          'accepted',
+        )
+        event?.set('activity.outbound_follow_status', 'accepted')
+      } catch (err) {
+        event?.setError(err instanceof Error ? err : new Error(String(err)))
+      }
+    })
+    .on(Reject, async (_fedCtx, reject) => {
+      const event = getWideEvent()
+      event?.set('activity.type', 'Reject')
+      event?.set('activity.id', reject.id?.href)
+
+      try {
+        if (reject.actorId === null || reject.objectId === null) {
+          event?.set('activity.ignored_reason', 'missing_required_fields')
+          return
+        }
+
+        event?.set('activity.actor_id', reject.actorId.href)
+
+        const outboundFollow = await ctx.db.getOutboundFollowByActivityId(
+          reject.objectId.href,
+        )
+        if (!outboundFollow) {
+          event?.set('activity.ignored_reason', 'no_outbound_follow_found')
+          return
+        }
+
+        event?.set('user.did', outboundFollow.userDid)
+
+        if (outboundFollow.actorUri !== reject.actorId.href) {
+          event?.set('activity.ignored_reason', 'actor_mismatch')
+          return
+        }
+
+        await ctx.db.updateOutboundFollowStatus(
+          outboundFollow.activityId,
+          'rejected',
+        )
+        event?.set('activity.outbound_follow_status', 'rejected')
+      } catch (err) {
+        event?.setError(err instanceof Error ? err : new Error(String(err)))
+      }
+    })
     .on(Undo, async (fedCtx, undo) => {
       const event = getWideEvent()
       event?.set('activity.type', 'Undo')
@@ -174,6 +880,15 @@ export function setupInboxListeners(ctx: AppContext) {
           const deleted = await ctx.db.deleteFollowsByActor(actorId.href)
           event?.set('activity.follows_deleted', deleted)
 
+          const outboundDeleted = await ctx.db.deleteOutboundFollowsByActor(
+            actorId.href,
+          )
+          event?.set('activity.outbound_follows_deleted', outboundDeleted)
+
+          await ctx.db.deleteRemoteActorByUri(actorId.href)
+          await ctx.db.deleteDirectMessageThreadsByActor(actorId.href)
+          await ctx.db.deletePollVotesByActor(actorId.href)
+
           const likesDeleted = await ctx.db.deleteLikesByActor(actorId.href)
           event?.set('activity.likes_deleted', likesDeleted)
 
@@ -201,6 +916,10 @@ export function setupInboxListeners(ctx: AppContext) {
               actorId.href,
             )
             event?.set('activity.post_mappings_deleted', deletedMappings)
+
+            const deletedTimelinePosts =
+              await ctx.db.deleteTimelinePostsByActor(actorId.href)
+            event?.set('activity.timeline_posts_deleted', deletedTimelinePosts)
           }
         } else {
           // Note deletion: delete bridged post if mapping exists
@@ -209,19 +928,23 @@ export function setupInboxListeners(ctx: AppContext) {
             return
           }
 
-          const mapping = await ctx.db.getPostMappingByApNoteId(objectId.href)
-          if (!mapping) {
+          const mappings = await ctx.db.getPostMappingsByApNoteId(objectId.href)
+          if (mappings.length === 0) {
             event?.set('activity.ignored_reason', 'no_mapping_found')
             return
           }
 
-          const atUri = new AtUri(mapping.atUri)
-          await ctx.mastodonBridgeAccount.deleteRecord(
-            atUri.collection,
-            atUri.rkey,
-          )
-          await ctx.db.deletePostMapping(mapping.atUri)
-          event?.set('activity.bridged_post_deleted', mapping.atUri)
+          // Long notes were bridged as a thread, delete every post of it
+          for (const mapping of mappings) {
+            const atUri = new AtUri(mapping.atUri)
+            await ctx.mastodonBridgeAccount.deleteRecord(
+              atUri.collection,
+              atUri.rkey,
+            )
+            await ctx.db.deletePostMapping(mapping.atUri)
+            await ctx.db.deleteTimelinePost(mapping.atUri)
+          }
+          event?.set('activity.bridged_post_deleted', mappings[0].atUri)
         }
       } catch (err) {
         event?.setError(err instanceof Error ? err : new Error(String(err)))
@@ -238,43 +961,52 @@ export function setupInboxListeners(ctx: AppContext) {
           return
         }
 
-        const object = await create.getObject()
-        if (!(object instanceof Note)) {
-          event?.set('activity.ignored_reason', 'not_a_note')
+        const inbound = await create.getObject()
+        const mapped = inbound
+          ? await recordConverterRegistry.fromObject(inbound)
+          : null
+        if (!inbound || !mapped) {
+          event?.set('activity.ignored_reason', 'unsupported_object_type')
           return
         }
+        const { converter, object } = mapped
 
-        event?.set('activity.object_type', 'Note')
+        event?.set('activity.object_type', inbound.constructor.name)
         event?.set('activity.note_id', object.id?.href)
 
-        const replyTargetId = object.replyTargetId
-        if (!replyTargetId) {
-          event?.set('activity.ignored_reason', 'not_a_reply')
+        if (await recordPollVote(ctx, fedCtx, object, create.actorId)) {
           return
         }
 
-        event?.set('activity.reply_target', replyTargetId.href)
+        if (ctx.cfg.directMessages.enabled && !isPublic(object)) {
+          const sender = await create.getActor()
+          const recipients = sender
+            ? getDirectMessageRecipients(ctx, fedCtx, object, sender)
+            : []
+          if (sender && recipients.length > 0) {
+            await forwardDirectMessage(ctx, sender, object, recipients)
+            return
+          }
+        }
 
-        const parsed = fedCtx.parseUri(replyTargetId)
-        if (!parsed || parsed.type !== 'object') {
-          event?.set('activity.ignored_reason', 'reply_target_not_local')
+        const replyTargetId = object.replyTargetId
+        if (!replyTargetId) {
+          if (!ctx.cfg.feedGenerator.enabled) {
+            event?.set('activity.ignored_reason', 'not_a_reply')
+            return
+          }
+          await bridgeTimelinePost(ctx, fedCtx, create, converter, object)
           return
         }
 
-        // Extract the identifier (DID) from the reply target
-        const urlPath = replyTargetId.pathname
-        const postUri = urlPath.slice(
-          urlPath.indexOf('posts/') + 'posts/'.length,
-        )
-        const postAtUri = new AtUri(postUri)
-        const postAuthorDid = postAtUri.host
-        event?.set('user.did', postAuthorDid)
+        event?.set('activity.reply_target', replyTargetId.href)
 
-        const account = await ctx.pdsClient.getAccount(postAuthorDid)
-        if (!account) {
-          event?.set('activity.ignored_reason', 'user_not_found')
+        const target = await resolveReplyTarget(ctx, fedCtx, replyTargetId)
+        if (!target) {
           return
         }
+        const { postAtUri, postAuthorDid } = target
+        event?.set('user.did', postAuthorDid)
 
         const actor = await create.getActor()
         if (!actor) {
@@ -285,40 +1017,29 @@ export function setupInboxListeners(ctx: AppContext) {
         const actorId = actor.id
         event?.set('activity.actor_id', actorId?.href)
 
-        const actorUsername = actor.preferredUsername?.toString() ?? 'unknown'
-        let actorHandle = actorUsername
-        let actorProfileUrl: string | undefined
-        if (actorId) {
-          actorHandle = `@${actorUsername}@${actorId.hostname}`
-          actorProfileUrl = `${actorId.origin}/@${actorUsername}`
-        }
-
+        const { object: attributed, actorHandle } = buildAttributedObject(
+          actor,
+          object,
+        )
         event?.set('activity.actor_handle', actorHandle)
 
-        // Build attribution prefix as HTML with a link to the author's profile
-        const originalContent = object.content ?? ''
-        const safeHandle = escapeHtml(actorHandle)
-        const actorLink =
-          actorProfileUrl && isSafeUrl(actorProfileUrl)
-            ? `<a href="${escapeHtml(actorProfileUrl)}">${safeHandle}</a>`
-            : safeHandle
-        const replyPrefixHtml = `<p>${actorLink} replied:</p>`
-        const modifiedNote = new Note({
-          id: object.id,
-          content: replyPrefixHtml + originalContent,
-          replyTarget: object.replyTargetId,
-          published: object.published,
-        })
+        if (!isPublic(object)) {
+          await deliverPrivateReply(
+            ctx,
+            postAtUri,
+            postAuthorDid,
+            actorHandle,
+            object,
+          )
+          return
+        }
 
-        const convertedRecord = await postConverter.toRecord(
+        const convertedRecord = await toInboundRecord(
+          ctx,
           fedCtx,
-          postAuthorDid,
-          modifiedNote,
-          {
-            pdsClient: ctx.pdsClient,
-            uploadBlob: (data, mimeType) =>
-              ctx.mastodonBridgeAccount.uploadBlob(data, mimeType),
-          },
+          converter,
+          postAtUri.host,
+          attributed,
         )
 
         if (!convertedRecord) {
@@ -326,50 +1047,36 @@ export function setupInboxListeners(ctx: AppContext) {
           return
         }
 
-        const postRecord = convertedRecord.value
-
-        const parentRecord = await ctx.pdsClient.getRecord(
-          postAuthorDid,
-          'app.bsky.feed.post',
-          postAtUri.rkey,
-        )
-
-        if (!parentRecord) {
+        const record = convertedRecord.value
+        if (!record.reply) {
           event?.set('activity.ignored_reason', 'parent_not_found')
           return
         }
 
-        const parentRef = {
-          uri: postAtUri.toString(),
-          cid: parentRecord.cid,
-        }
-
-        const parentValue = parentRecord.value as {
-          reply?: { root: { uri: string; cid: string } }
-        }
-        const rootRef = parentValue.reply?.root ?? parentRef
-
-        postRecord.reply = {
-          root: rootRef,
-          parent: parentRef,
+        if (!(await isReplyAllowed(ctx, record.reply.root.uri, actorId))) {
+          event?.set('activity.ignored_reason', 'threadgate_forbids_reply')
+          return
         }
 
-        const result = await ctx.mastodonBridgeAccount.createRecord(
-          'app.bsky.feed.post',
-          postRecord,
+        const actorInboxId = actor.inboxId
+        const note =
+          object.id && actorId && actorInboxId
+            ? {
+                apNoteId: object.id.href,
+                apActorId: actorId.href,
+                apActorInbox: actorInboxId.href,
+              }
+            : null
+        const created = await createBridgedRecords(
+          ctx,
+          converter.collection,
+          fitRecord(ctx, record, object),
+          note,
         )
 
-        event?.set('activity.created_post_uri', result.uri)
-
-        const actorInboxId = actor.inboxId
-        if (object.id && actorId && actorInboxId) {
-          await ctx.db.createPostMapping({
-            atUri: result.uri,
-            apNoteId: object.id.href,
-            apActorId: actorId.href,
-            apActorInbox: actorInboxId.href,
-            createdAt: new Date().toISOString(),
-          })
+        event?.set('activity.created_post_uri', created[0].uri)
+        event?.set('activity.created_post_count', created.length)
+        if (note) {
           event?.set('activity.post_mapping_created', true)
         }
 
@@ -378,104 +1085,154 @@ export function setupInboxListeners(ctx: AppContext) {
         event?.setError(err instanceof Error ? err : new Error(String(err)))
       }
     })
-    .on(Like, async (fedCtx, like) => {
+    .on(Update, async (fedCtx, update) => {
       const event = getWideEvent()
-      event?.set('activity.type', 'Like')
-      event?.set('activity.id', like.id?.href)
+      event?.set('activity.type', 'Update')
+      event?.set('activity.id', update.id?.href)
 
       try {
-        if (
-          like.id === null ||
-          like.actorId === null ||
-          like.objectId === null
-        ) {
-          event?.set('activity.ignored_reason', 'missing_required_fields')
+        if (!ctx.mastodonBridgeAccount.isAvailable()) {
+          event?.set('activity.ignored_reason', 'bridge_not_configured')
           return
         }
 
-        event?.set('activity.actor_id', like.actorId.href)
-
-        const parsed = fedCtx.parseUri(like.objectId)
-        if (!parsed || parsed.type !== 'object') {
-          event?.set('activity.ignored_reason', 'object_not_local_post')
+        const inbound = await update.getObject()
+        const mapped = inbound
+          ? await recordConverterRegistry.fromObject(inbound)
+          : null
+        if (!inbound || !mapped) {
+          event?.set('activity.ignored_reason', 'unsupported_object_type')
           return
         }
+        const { converter, object } = mapped
 
-        const urlPath = like.objectId.pathname
-        const postUri = urlPath.slice(
-          urlPath.indexOf('posts/') + 'posts/'.length,
-        )
-        const postAtUri = new AtUri(postUri)
-        const postAuthorDid = postAtUri.host
-        event?.set('user.did', postAuthorDid)
+        event?.set('activity.object_type', inbound.constructor.name)
+        event?.set('activity.note_id', object.id?.href)
 
-        const account = await ctx.pdsClient.getAccount(postAuthorDid)
-        if (!account) {
-          event?.set('activity.ignored_reason', 'user_not_found')
+        if (object.id == null) {
+          event?.set('activity.ignored_reason', 'missing_object_id')
           return
         }
 
-        await ctx.db.createLike({
-          activityId: (like.id as URL).href,
-          postAtUri: postAtUri.toString(),
-          postAuthorDid,
-          apActorId: (like.actorId as URL).href,
-          createdAt: new Date().toISOString(),
-        })
+        const mappings = await ctx.db.getPostMappingsByApNoteId(object.id.href)
+        const mapping = mappings[0]
+        if (!mapping) {
+          event?.set('activity.ignored_reason', 'no_mapping_found')
+          return
+        }
 
-        event?.set('activity.like_stored', true)
-      } catch (err) {
-        event?.setError(err instanceof Error ? err : new Error(String(err)))
-      }
-    })
-    .on(Announce, async (fedCtx, announce) => {
-      const event = getWideEvent()
-      event?.set('activity.type', 'Announce')
-      event?.set('activity.id', announce.id?.href)
+        // Only the original author may edit a bridged post
+        if (update.actorId?.href !== mapping.apActorId) {
+          event?.set('activity.ignored_reason', 'actor_mismatch')
+          return
+        }
 
-      try {
-        if (
-          announce.id === null ||
-          announce.actorId === null ||
-          announce.objectId === null
-        ) {
-          event?.set('activity.ignored_reason', 'missing_required_fields')
+        const actor = await update.getActor()
+        if (!actor) {
+          event?.set('activity.ignored_reason', 'could_not_fetch_actor')
           return
         }
 
-        event?.set('activity.actor_id', announce.actorId.href)
+        event?.set('activity.actor_id', actor.id?.href)
 
-        const parsed = fedCtx.parseUri(announce.objectId)
-        if (!parsed || parsed.type !== 'object') {
-          event?.set('activity.ignored_reason', 'object_not_local_post')
+        const atUri = new AtUri(mapping.atUri)
+        const existing = await ctx.pdsClient.getRecord(
+          atUri.host,
+          atUri.collection,
+          atUri.rkey,
+        )
+        if (!existing) {
+          event?.set('activity.ignored_reason', 'bridged_post_not_found')
           return
         }
 
-        const urlPath = announce.objectId.pathname
-        const postUri = urlPath.slice(
-          urlPath.indexOf('posts/') + 'posts/'.length,
+        const existingValue = existing.value as InboundRecord
+
+        const { object: attributed, actorHandle } = buildAttributedObject(
+          actor,
+          object,
+          existingValue.reply ? 'replied' : 'posted',
         )
-        const postAtUri = new AtUri(postUri)
-        const postAuthorDid = postAtUri.host
-        event?.set('user.did', postAuthorDid)
+        event?.set('activity.actor_handle', actorHandle)
 
-        const account = await ctx.pdsClient.getAccount(postAuthorDid)
-        if (!account) {
-          event?.set('activity.ignored_reason', 'user_not_found')
+        const convertedRecord = await toInboundRecord(
+          ctx,
+          fedCtx,
+          converter,
+          atUri.host,
+          attributed,
+        )
+
+        if (!convertedRecord) {
+          event?.set('activity.ignored_reason', 'conversion_failed')
           return
         }
 
-        await ctx.db.createRepost({
-          activityId: (announce.id as URL).href,
-          postAtUri: postAtUri.toString(),
-          postAuthorDid,
-          apActorId: (announce.actorId as URL).href,
-          createdAt: new Date().toISOString(),
-        })
+        // Keep the thread position and original timestamp of the bridged post
+        const record = convertedRecord.value
+        record.reply = existingValue.reply
+        if (existingValue.createdAt) {
+          record.createdAt = existingValue.createdAt
+        }
+
+        // The edit may change how many posts the note is split into: rewrite
+        // the existing ones, then create or delete posts at the end
+        const records = fitRecord(ctx, record, object)
+        const updated: { uri: string; cid: string }[] = []
+        for (const [chunkIndex, chunk] of records.entries()) {
+          if (chunkIndex > 0) {
+            chunk.reply = {
+              root: record.reply?.root ?? updated[0],
+              parent: updated[chunkIndex - 1],
+            }
+          }
+          const chunkMapping = mappings[chunkIndex]
+          if (chunkMapping) {
+            const chunkUri = new AtUri(chunkMapping.atUri)
+            updated.push(
+              await ctx.mastodonBridgeAccount.putRecord(
+                chunkUri.collection,
+                chunkUri.rkey,
+                chunk,
+              ),
+            )
+          } else {
+            const result = await ctx.mastodonBridgeAccount.createRecord(
+              converter.collection,
+              chunk,
+            )
+            await ctx.db.createPostMapping({
+              atUri: result.uri,
+              apNoteId: mapping.apNoteId,
+              apActorId: mapping.apActorId,
+              apActorInbox: mapping.apActorInbox,
+              chunkIndex,
+              createdAt: new Date().toISOString(),
+            })
+            updated.push(result)
+          }
+        }
+        for (const surplus of mappings.slice(records.length)) {
+          const surplusUri = new AtUri(surplus.atUri)
+          await ctx.mastodonBridgeAccount.deleteRecord(
+            surplusUri.collection,
+            surplusUri.rkey,
+          )
+          await ctx.db.deletePostMapping(surplus.atUri)
+        }
 
-        event?.set('activity.repost_stored', true)
+        event?.set('activity.bridged_post_updated', mapping.atUri)
+        event?.set('activity.updated_post_count', records.length)
       } catch (err) {
         event?.setError(err instanceof Error ? err : new Error(String(err)))
       }
     })
+
+  // Likes, boosts and other activities engaging with local posts are stored
+  // by the converter registered for their type
+  for (const type of recordConverterRegistry.getEngagementTypes()) {
+    listeners.on(type, (fedCtx, activity) =>
+      receiveEngagement(ctx, fedCtx, activity),
+    )
+  }
 }
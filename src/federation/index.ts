@@ -1,13 +1,14 @@
 import { integrateFederation } from '@fedify/express'
 import { AppContext } from '../context'
-import { setupActorDispatcher } from './actor'
+import { buildPerson, setupActorDispatcher } from './actor'
 import { setupFollowersDispatcher } from './followers'
 import { setupFollowingDispatcher } from './following'
 import { setupInboxListeners } from './inbox'
 import { setupNodeInfoDispatcher } from './nodeinfo'
 import { setupOutboxDispatcher, recordConverterRegistry } from './outbox'
+import { setupPostCollectionDispatchers } from './post-collections'
 
-export { recordConverterRegistry }
+export { buildPerson, recordConverterRegistry }
 
 export function setupFederation(ctx: AppContext) {
   setupNodeInfoDispatcher(ctx)
@@ -16,6 +17,7 @@ export function setupFederation(ctx: AppContext) {
   setupFollowingDispatcher(ctx)
   setupInboxListeners(ctx)
   setupOutboxDispatcher(ctx)
+  setupPostCollectionDispatchers(ctx)
 }
 
 export function createRouter(ctx: AppContext) {
@@ -1,11 +1,13 @@
 import { AtUri } from '@atproto/syntax'
-import { Note } from '@fedify/vocab'
+import type { RequestContext } from '@fedify/fedify'
+import { Note, PUBLIC_COLLECTION, type Object as APObject } from '@fedify/vocab'
 import { AppContext } from '../context'
 import {
   RecordConverterRegistry,
   likeConverter,
   postConverter,
   repostConverter,
+  type ToActivityPubContext,
 } from '../conversion'
 import { getWideEvent } from '../logging'
 
@@ -14,6 +16,90 @@ recordConverterRegistry.register(postConverter)
 recordConverterRegistry.register(likeConverter)
 recordConverterRegistry.register(repostConverter)
 
+/**
+ * Whether an object is addressed to the public, including unlisted objects
+ * that only cc it.
+ */
+export function isPublic(object: APObject): boolean {
+  return [...object.toIds, ...object.ccIds].some(
+    (id) => id.href === PUBLIC_COLLECTION.href,
+  )
+}
+
+/**
+ * Check whether the signer of a request is in the audience of a
+ * non-public object: either addressed directly, or one of the author's
+ * followers when the object is addressed to them.
+ */
+async function canView(
+  ctx: AppContext,
+  fedCtx: RequestContext<void>,
+  identifier: string,
+  object: APObject,
+): Promise<boolean> {
+  if (isPublic(object)) {
+    return true
+  }
+
+  const signer = await fedCtx.getSignedKeyOwner()
+  if (!signer?.id) {
+    return false
+  }
+
+  const audience = [...object.toIds, ...object.ccIds].map((id) => id.href)
+  if (audience.includes(signer.id.href)) {
+    return true
+  }
+  return (
+    audience.includes(fedCtx.getFollowersUri(identifier).href) &&
+    !!(await ctx.db.getFollow(identifier, signer.id.href))
+  )
+}
+
+/**
+ * Options for converting local records into ActivityPub objects.
+ */
+function toActivityPubOptions(ctx: AppContext): ToActivityPubContext {
+  return {
+    db: ctx.db,
+    appViewClient: ctx.appViewClient,
+    mentionTargets: ctx.mentionTargets,
+    threadgateVisibility: ctx.cfg.threadgates.visibility,
+  }
+}
+
+/**
+ * Check whether the signer of a request may see a local post, by the
+ * audience of its Note. Posts that can't be found or converted are not
+ * visible.
+ */
+export async function canViewPost(
+  ctx: AppContext,
+  fedCtx: RequestContext<void>,
+  uri: string,
+): Promise<boolean> {
+  const atUri = new AtUri(uri)
+  const recordConverter = recordConverterRegistry.get(atUri.collection)
+  const record = recordConverter
+    ? await ctx.pdsClient.getRecord(atUri.host, atUri.collection, atUri.rkey)
+    : null
+  if (!recordConverter || !record) {
+    return false
+  }
+
+  const conversionResult = await recordConverter.toActivityPub(
+    fedCtx,
+    atUri.host,
+    record,
+    ctx.pdsClient,
+    toActivityPubOptions(ctx),
+  )
+  return (
+    !!conversionResult?.object &&
+    (await canView(ctx, fedCtx, atUri.host, conversionResult.object))
+  )
+}
+
 export function setupOutboxDispatcher(ctx: AppContext) {
   ctx.federation
     .setOutboxDispatcher(
@@ -81,14 +167,20 @@ export function setupOutboxDispatcher(ctx: AppContext) {
                   identifier,
                   record,
                   ctx.pdsClient,
-                  { db: ctx.db },
+                  toActivityPubOptions(ctx),
                 )
 
                 if (!conversionResult || !conversionResult.activity) {
                   return null
                 }
 
-                return conversionResult.activity
+                // Followers-only posts are left out of the public outbox
+                const { activity } = conversionResult
+                if (!isPublic(activity)) {
+                  return null
+                }
+
+                return activity
               } catch {
                 conversionErrors++
                 return null
@@ -181,7 +273,12 @@ export function setupOutboxDispatcher(ctx: AppContext) {
           identifier,
           record,
           ctx.pdsClient,
-          { db: ctx.db },
+          {
+            ...toActivityPubOptions(ctx),
+            // Served Notes show Bluesky engagement too, so Fediverse servers
+            // that refresh them see the full counts
+            engagementCounts: ctx.engagementCounts,
+          },
         )
 
         if (!conversionResult) {
@@ -189,6 +286,16 @@ export function setupOutboxDispatcher(ctx: AppContext) {
           return null
         }
 
+        // Followers-only posts are only served to the actors they are
+        // addressed to, like Mastodon responds 404 to anyone else
+        if (
+          conversionResult.object &&
+          !(await canView(ctx, fedCtx, identifier, conversionResult.object))
+        ) {
+          event?.set('dispatch.result', 'not_visible')
+          return null
+        }
+
         event?.set('dispatch.result', 'success')
         return conversionResult.object
       } catch (err) {
@@ -0,0 +1,226 @@
+import { AtUri } from '@atproto/syntax'
+import type { RequestContext } from '@fedify/fedify'
+import { Announce, Like, Note } from '@fedify/vocab'
+import { AppContext } from '../context'
+import { getWideEvent } from '../logging'
+import { canViewPost } from './outbox'
+
+const POST_COLLECTION = 'app.bsky.feed.post'
+
+function parsePostUri(uri: string): AtUri | null {
+  try {
+    const atUri = new AtUri(uri)
+    return atUri.collection === POST_COLLECTION ? atUri : null
+  } catch {
+    return null
+  }
+}
+
+// The replies counter and dispatcher answer the same request, which lists
+// the replies once
+const replyIdsByRequest = new WeakMap<Request, Promise<URL[]>>()
+
+function getReplyIds(
+  ctx: AppContext,
+  fedCtx: RequestContext<void>,
+  postUri: string,
+): Promise<URL[]> {
+  let ids = replyIdsByRequest.get(fedCtx.request)
+  if (!ids) {
+    ids = listReplyIds(ctx, fedCtx, postUri)
+    replyIdsByRequest.set(fedCtx.request, ids)
+  }
+  return ids
+}
+
+/**
+ * Find the ActivityPub ids of the replies to a post that the Fediverse can
+ * see: Fediverse replies bridged by the Mastodon bridge account, Bluesky
+ * replies relayed by the Bluesky bridge account and replies of local users.
+ */
+async function listReplyIds(
+  ctx: AppContext,
+  fedCtx: RequestContext<void>,
+  postUri: string,
+): Promise<URL[]> {
+  const replyUris = await ctx.appViewClient.getReplyUris(postUri)
+  const localAccounts = await ctx.pdsClient.getAccounts([
+    ...new Set(replyUris.map((uri) => new AtUri(uri).host)),
+  ])
+
+  const ids: URL[] = []
+  for (const uri of replyUris) {
+    const mapping = await ctx.db.getPostMapping(uri)
+    if (mapping) {
+      ids.push(new URL(mapping.apNoteId))
+      continue
+    }
+    const externalReply = await ctx.db.getExternalReply(uri)
+    if (externalReply) {
+      ids.push(new URL(externalReply.apNoteId))
+      continue
+    }
+    if (localAccounts.has(new AtUri(uri).host)) {
+      ids.push(fedCtx.getObjectUri(Note, { uri }))
+    }
+  }
+  return ids
+}
+
+export function setupPostCollectionDispatchers(ctx: AppContext) {
+  ctx.federation
+    .setCollectionDispatcher(
+      'likes',
+      Like,
+      '/posts/{+uri}/likes',
+      async (fedCtx, values) => {
+        const event = getWideEvent()
+        event?.set('dispatch.type', 'likes')
+        event?.set('object.uri', values.uri)
+
+        if (!parsePostUri(values.uri)) {
+          event?.set('dispatch.result', 'not_a_post')
+          return null
+        }
+
+        try {
+          if (!(await canViewPost(ctx, fedCtx, values.uri))) {
+            event?.set('dispatch.result', 'not_visible')
+            return null
+          }
+
+          const likes = await ctx.db.getLikesForPost(values.uri)
+          event?.set('likes.count', likes.length)
+          event?.set('dispatch.result', 'success')
+
+          const object = fedCtx.getObjectUri(Note, { uri: values.uri })
+          return {
+            items: likes.map(
+              (like) =>
+                new Like({
+                  id: new URL(like.activityId),
+                  actor: new URL(like.apActorId),
+                  object,
+                }),
+            ),
+          }
+        } catch (err) {
+          event?.setError(err instanceof Error ? err : new Error(String(err)))
+          event?.set('dispatch.result', 'error')
+          return { items: [] }
+        }
+      },
+    )
+    // Counted like on the post's Note, with Bluesky likes
+    .setCounter(async (_fedCtx, values) => {
+      if (!parsePostUri(values.uri)) {
+        return 0
+      }
+      const blueskyCounts = await ctx.engagementCounts.get(values.uri)
+      return (
+        (await ctx.db.getLikesCountForPost(values.uri)) +
+        (blueskyCounts?.likeCount ?? 0)
+      )
+    })
+
+  ctx.federation
+    .setCollectionDispatcher(
+      'shares',
+      Announce,
+      '/posts/{+uri}/shares',
+      async (fedCtx, values) => {
+        const event = getWideEvent()
+        event?.set('dispatch.type', 'shares')
+        event?.set('object.uri', values.uri)
+
+        if (!parsePostUri(values.uri)) {
+          event?.set('dispatch.result', 'not_a_post')
+          return null
+        }
+
+        try {
+          if (!(await canViewPost(ctx, fedCtx, values.uri))) {
+            event?.set('dispatch.result', 'not_visible')
+            return null
+          }
+
+          const reposts = await ctx.db.getRepostsForPost(values.uri)
+          event?.set('shares.count', reposts.length)
+          event?.set('dispatch.result', 'success')
+
+          const object = fedCtx.getObjectUri(Note, { uri: values.uri })
+          return {
+            items: reposts.map(
+              (repost) =>
+                new Announce({
+                  id: new URL(repost.activityId),
+                  actor: new URL(repost.apActorId),
+                  object,
+                }),
+            ),
+          }
+        } catch (err) {
+          event?.setError(err instanceof Error ? err : new Error(String(err)))
+          event?.set('dispatch.result', 'error')
+          return { items: [] }
+        }
+      },
+    )
+    // Counted like on the post's Note, with Bluesky reposts
+    .setCounter(async (_fedCtx, values) => {
+      if (!parsePostUri(values.uri)) {
+        return 0
+      }
+      const blueskyCounts = await ctx.engagementCounts.get(values.uri)
+      return (
+        (await ctx.db.getRepostsCountForPost(values.uri)) +
+        (blueskyCounts?.repostCount ?? 0)
+      )
+    })
+
+  ctx.federation
+    .setCollectionDispatcher(
+      'replies',
+      Note,
+      '/posts/{+uri}/replies',
+      async (fedCtx, values) => {
+        const event = getWideEvent()
+        event?.set('dispatch.type', 'replies')
+        event?.set('object.uri', values.uri)
+
+        if (!parsePostUri(values.uri)) {
+          event?.set('dispatch.result', 'not_a_post')
+          return null
+        }
+
+        try {
+          if (!(await canViewPost(ctx, fedCtx, values.uri))) {
+            event?.set('dispatch.result', 'not_visible')
+            return null
+          }
+
+          const ids = await getReplyIds(ctx, fedCtx, values.uri)
+          event?.set('replies.count', ids.length)
+          event?.set('dispatch.result', 'success')
+          return { items: ids.map((id) => new Note({ id })) }
+        } catch (err) {
+          event?.setError(err instanceof Error ? err : new Error(String(err)))
+          event?.set('dispatch.result', 'error')
+          return { items: [] }
+        }
+      },
+    )
+    // Only the replies the Fediverse can see are counted, so the count
+    // agrees with the items
+    .setCounter(async (fedCtx, values) => {
+      if (!parsePostUri(values.uri)) {
+        return 0
+      }
+      try {
+        return (await getReplyIds(ctx, fedCtx, values.uri)).length
+      } catch {
+        // The dispatcher reports the error
+        return 0
+      }
+    })
+}
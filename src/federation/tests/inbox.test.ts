@@ -1,19 +1,43 @@
+import { BlobRef } from '@atproto/lexicon'
 import type { InboxContext } from '@fedify/fedify'
 import { createFederation, createInboxContext } from '@fedify/testing'
 import {
   Accept,
   Announce,
+  Collection,
   Create,
   Delete,
   Endpoints,
+  Event,
+  Flag,
   Follow,
+  Hashtag,
+  Image,
   Like,
+  Link,
+  Mention,
   Note,
+  Page,
   Person,
+  PUBLIC_COLLECTION,
+  Question,
+  Reject,
   Undo,
+  Update,
+  Video,
+  type Object as APObject,
 } from '@fedify/vocab'
 import { Temporal } from '@js-temporal/polyfill'
-import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { CID } from 'multiformats/cid'
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  onTestFinished,
+  vi,
+} from 'vitest'
 import type { AppContext } from '../../context'
 import type { APDatabase } from '../../db'
 import {
@@ -23,6 +47,7 @@ import {
   testData,
 } from '../../test-utils'
 import { setupInboxListeners } from '../inbox'
+import { recordConverterRegistry } from '../outbox'
 
 function createTestFederation() {
   return createFederation<void>({
@@ -514,6 +539,9 @@ describe('inbox', () => {
         cfg: {
           service: { publicUrl: 'https://ap.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: 'thread' },
+          directMessages: { enabled: true },
         },
       } as unknown as AppContext
 
@@ -527,6 +555,7 @@ describe('inbox', () => {
 
       const replyNote = new Note({
         id: new URL('https://remote.example/notes/reply-1'),
+        to: PUBLIC_COLLECTION,
         content: '<p>Great post!</p>',
         replyTarget: new URL(
           `https://ap.example/posts/${testData.posts.simple.uri}`,
@@ -589,6 +618,9 @@ describe('inbox', () => {
         cfg: {
           service: { publicUrl: 'https://ap.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: 'thread' },
+          directMessages: { enabled: true },
         },
       } as unknown as AppContext
 
@@ -606,6 +638,7 @@ describe('inbox', () => {
 
       const replyNote = new Note({
         id: new URL(remoteNoteId),
+        to: PUBLIC_COLLECTION,
         content: '<p>Great post!</p>',
         replyTarget: new URL(
           `https://ap.example/posts/${testData.posts.simple.uri}`,
@@ -628,13 +661,33 @@ describe('inbox', () => {
       expect(mapping?.apActorInbox).toBe(remoteActorInbox)
     })
 
-    it('should skip Create when Note is not a reply', async () => {
+    it('should split a long reply into a self-reply thread', async () => {
       const federation = createTestFederation()
       federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
 
-      const pdsClient = createMockPdsClient()
+      const pdsClient = createMockPdsClient({
+        getAccount: vi.fn().mockResolvedValue({
+          did: testData.users.alice.did,
+          handle: testData.users.alice.handle,
+        }),
+        getRecord: vi.fn().mockResolvedValue({
+          uri: testData.posts.simple.uri,
+          cid: testData.posts.simple.cid,
+          value: testData.posts.simple.value,
+        }),
+      })
+
+      let created = 0
       const mastodonBridgeAccount = createMockMastodonBridgeAccount({
         isAvailable: vi.fn().mockReturnValue(true),
+        createRecord: vi.fn().mockImplementation(async () => {
+          created++
+          return {
+            uri: `at://did:plc:bridge/app.bsky.feed.post/chunk${created}`,
+            cid: `bafychunk${created}`,
+          }
+        }),
       })
 
       mockCtx = {
@@ -645,87 +698,140 @@ describe('inbox', () => {
         cfg: {
           service: { publicUrl: 'https://ap.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: 'thread' },
+          directMessages: { enabled: true },
         },
       } as unknown as AppContext
 
       setupInboxListeners(mockCtx)
 
-      const remoteActor = new Person({
-        id: new URL('https://remote.example/users/bob'),
-        preferredUsername: 'bob',
-        inbox: new URL('https://remote.example/users/bob/inbox'),
-      })
-
-      // Note without replyTarget - not a reply
-      const note = new Note({
-        id: new URL('https://remote.example/notes/standalone'),
-        content: '<p>Just a standalone post</p>',
-        published: Temporal.Now.instant(),
-      })
-
+      const remoteNoteId = 'https://remote.example/notes/long-reply'
       const create = new Create({
-        id: new URL('https://remote.example/activities/create-standalone'),
-        actor: remoteActor,
-        object: note,
+        id: new URL('https://remote.example/activities/create-long'),
+        actor: new Person({
+          id: new URL('https://remote.example/users/bob'),
+          preferredUsername: 'bob',
+          inbox: new URL('https://remote.example/users/bob/inbox'),
+        }),
+        object: new Note({
+          id: new URL(remoteNoteId),
+          to: PUBLIC_COLLECTION,
+          content: `<p>${'word '.repeat(150)}</p>`,
+          replyTarget: new URL(
+            `https://ap.example/posts/${testData.posts.simple.uri}`,
+          ),
+          published: Temporal.Now.instant(),
+        }),
       })
 
       await invokeInboxListener(federation, 'Create', create)
 
-      expect(mastodonBridgeAccount.createRecord).not.toHaveBeenCalled()
+      expect(mastodonBridgeAccount.createRecord).toHaveBeenCalledTimes(3)
+      const records = mastodonBridgeAccount.createRecord.mock.calls.map(
+        ([, record]) => record,
+      )
+      for (const record of records) {
+        expect(
+          [...new Intl.Segmenter().segment(record.text)].length,
+        ).toBeLessThanOrEqual(300)
+      }
+      expect(records[0].reply.parent.uri).toBe(testData.posts.simple.uri)
+      expect(records[1].reply).toEqual({
+        root: records[0].reply.root,
+        parent: {
+          uri: 'at://did:plc:bridge/app.bsky.feed.post/chunk1',
+          cid: 'bafychunk1',
+        },
+      })
+      expect(records[2].reply.parent.uri).toBe(
+        'at://did:plc:bridge/app.bsky.feed.post/chunk2',
+      )
+
+      const mappings = await db.getPostMappingsByApNoteId(remoteNoteId)
+      expect(mappings.map((m) => m.chunkIndex)).toEqual([0, 1, 2])
+      expect((await db.getPostMappingByApNoteId(remoteNoteId))?.atUri).toBe(
+        'at://did:plc:bridge/app.bsky.feed.post/chunk1',
+      )
     })
 
-    it('should skip Create when bridge account is not available', async () => {
+    it('should keep the mappings of chunks created before a failure', async () => {
       const federation = createTestFederation()
       federation.setActorDispatcher('/users/{identifier}', () => null)
       federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
 
-      const pdsClient = createMockPdsClient()
+      let created = 0
       const mastodonBridgeAccount = createMockMastodonBridgeAccount({
-        isAvailable: vi.fn().mockReturnValue(false),
+        isAvailable: vi.fn().mockReturnValue(true),
+        createRecord: vi.fn().mockImplementation(async () => {
+          created++
+          if (created === 3) {
+            throw new Error('PDS unavailable')
+          }
+          return {
+            uri: `at://did:plc:bridge/app.bsky.feed.post/chunk${created}`,
+            cid: `bafychunk${created}`,
+          }
+        }),
       })
 
       mockCtx = {
         db,
-        pdsClient,
+        pdsClient: createMockPdsClient({
+          getAccount: vi.fn().mockResolvedValue({
+            did: testData.users.alice.did,
+            handle: testData.users.alice.handle,
+          }),
+          getRecord: vi.fn().mockResolvedValue({
+            uri: testData.posts.simple.uri,
+            cid: testData.posts.simple.cid,
+            value: testData.posts.simple.value,
+          }),
+        }),
         mastodonBridgeAccount,
         federation,
         cfg: {
           service: { publicUrl: 'https://ap.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: 'thread' },
+          directMessages: { enabled: true },
         },
       } as unknown as AppContext
 
       setupInboxListeners(mockCtx)
 
-      const remoteActor = new Person({
-        id: new URL('https://remote.example/users/bob'),
-        preferredUsername: 'bob',
-        inbox: new URL('https://remote.example/users/bob/inbox'),
-      })
-
-      const replyNote = new Note({
-        id: new URL('https://remote.example/notes/reply-1'),
-        content: '<p>Great post!</p>',
-        replyTarget: new URL(
-          `https://ap.example/posts/${testData.posts.simple.uri}`,
-        ),
-        published: Temporal.Now.instant(),
-      })
-
-      const create = new Create({
-        id: new URL('https://remote.example/activities/create-1'),
-        actor: remoteActor,
-        object: replyNote,
-      })
-
-      await invokeInboxListener(federation, 'Create', create)
+      const remoteNoteId = 'https://remote.example/notes/long-reply'
+      await invokeInboxListener(
+        federation,
+        'Create',
+        new Create({
+          id: new URL('https://remote.example/activities/create-long'),
+          actor: new Person({
+            id: new URL('https://remote.example/users/bob'),
+            preferredUsername: 'bob',
+            inbox: new URL('https://remote.example/users/bob/inbox'),
+          }),
+          object: new Note({
+            id: new URL(remoteNoteId),
+            to: PUBLIC_COLLECTION,
+            content: `<p>${'word '.repeat(150)}</p>`,
+            replyTarget: new URL(
+              `https://ap.example/posts/${testData.posts.simple.uri}`,
+            ),
+            published: Temporal.Now.instant(),
+          }),
+        }),
+      )
 
-      expect(mastodonBridgeAccount.createRecord).not.toHaveBeenCalled()
+      const mappings = await db.getPostMappingsByApNoteId(remoteNoteId)
+      expect(mappings.map((m) => m.atUri)).toEqual([
+        'at://did:plc:bridge/app.bsky.feed.post/chunk1',
+        'at://did:plc:bridge/app.bsky.feed.post/chunk2',
+      ])
     })
-  })
 
-  describe('Like handling', () => {
-    it('should store a valid Like in the database', async () => {
+    async function replyToGatedPost(allow: Array<{ $type: string }>) {
       const federation = createTestFederation()
       federation.setActorDispatcher('/users/{identifier}', () => null)
       federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
@@ -735,9 +841,32 @@ describe('inbox', () => {
           did: testData.users.alice.did,
           handle: testData.users.alice.handle,
         }),
+        getRecord: vi.fn().mockImplementation(async (_did, collection) =>
+          collection === 'app.bsky.feed.threadgate'
+            ? {
+                uri: testData.posts.simple.uri,
+                cid: 'bafygate',
+                value: {
+                  $type: 'app.bsky.feed.threadgate',
+                  post: testData.posts.simple.uri,
+                  allow,
+                  createdAt: '2024-01-15T12:00:00.000Z',
+                },
+              }
+            : {
+                uri: testData.posts.simple.uri,
+                cid: testData.posts.simple.cid,
+                value: testData.posts.simple.value,
+              },
+        ),
       })
+
       const mastodonBridgeAccount = createMockMastodonBridgeAccount({
-        isAvailable: vi.fn().mockReturnValue(false),
+        isAvailable: vi.fn().mockReturnValue(true),
+        createRecord: vi.fn().mockResolvedValue({
+          uri: 'at://did:plc:bridge/app.bsky.feed.post/reply123',
+          cid: 'bafyreply123',
+        }),
       })
 
       mockCtx = {
@@ -748,71 +877,162 @@ describe('inbox', () => {
         cfg: {
           service: { publicUrl: 'https://ap.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: 'thread' },
+          directMessages: { enabled: true },
         },
       } as unknown as AppContext
 
       setupInboxListeners(mockCtx)
 
-      const like = new Like({
-        id: new URL('https://remote.example/activities/like-1'),
-        actor: new URL('https://remote.example/users/bob'),
-        object: new URL(
-          `https://ap.example/posts/${testData.posts.simple.uri}`,
-        ),
+      const create = new Create({
+        id: new URL('https://remote.example/activities/create-1'),
+        actor: new Person({
+          id: new URL('https://remote.example/users/bob'),
+          preferredUsername: 'bob',
+          inbox: new URL('https://remote.example/users/bob/inbox'),
+        }),
+        object: new Note({
+          id: new URL('https://remote.example/notes/reply-1'),
+          to: PUBLIC_COLLECTION,
+          content: '<p>Great post!</p>',
+          replyTarget: new URL(
+            `https://ap.example/posts/${testData.posts.simple.uri}`,
+          ),
+          published: Temporal.Now.instant(),
+        }),
       })
 
-      await invokeInboxListener(federation, 'Like', like)
+      await invokeInboxListener(federation, 'Create', create)
+      return mastodonBridgeAccount
+    }
 
-      const likes = await db.getLikesForPost(testData.posts.simple.uri)
-      expect(likes).toHaveLength(1)
-      expect(likes[0].activityId).toBe(
-        'https://remote.example/activities/like-1',
-      )
-      expect(likes[0].apActorId).toBe('https://remote.example/users/bob')
-      expect(likes[0].postAtUri).toBe(testData.posts.simple.uri)
-      expect(likes[0].postAuthorDid).toBe(testData.users.alice.did)
+    it('should reject replies to posts whose threadgate allows no one', async () => {
+      const mastodonBridgeAccount = await replyToGatedPost([])
+
+      expect(mastodonBridgeAccount.createRecord).not.toHaveBeenCalled()
     })
 
-    it('should ignore Like with missing required fields', async () => {
+    it('should bridge replies from actors the author follows under a following rule', async () => {
+      await db.saveOutboundFollow({
+        userDid: testData.users.alice.did,
+        actorUri: 'https://remote.example/users/bob',
+        actorInbox: 'https://remote.example/users/bob/inbox',
+        actorSharedInbox: null,
+        activityId: 'https://ap.example/follows/1',
+        status: 'accepted',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      })
+
+      const mastodonBridgeAccount = await replyToGatedPost([
+        { $type: 'app.bsky.feed.threadgate#followingRule' },
+      ])
+
+      expect(mastodonBridgeAccount.createRecord).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject replies from actors not matching a following rule', async () => {
+      const mastodonBridgeAccount = await replyToGatedPost([
+        { $type: 'app.bsky.feed.threadgate#followingRule' },
+        { $type: 'app.bsky.feed.threadgate#mentionRule' },
+      ])
+
+      expect(mastodonBridgeAccount.createRecord).not.toHaveBeenCalled()
+    })
+
+    async function sendPrivateReply(privateReplyMode: 'dm' | 'drop') {
       const federation = createTestFederation()
       federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
 
-      const pdsClient = createMockPdsClient()
+      const pdsClient = createMockPdsClient({
+        getAccount: vi.fn().mockResolvedValue({
+          did: testData.users.alice.did,
+          handle: testData.users.alice.handle,
+        }),
+        getRecord: vi.fn().mockResolvedValue({
+          uri: testData.posts.simple.uri,
+          cid: testData.posts.simple.cid,
+          value: testData.posts.simple.value,
+        }),
+      })
       const mastodonBridgeAccount = createMockMastodonBridgeAccount({
-        isAvailable: vi.fn().mockReturnValue(false),
+        isAvailable: vi.fn().mockReturnValue(true),
       })
+      const chatClient = { sendDm: vi.fn().mockResolvedValue(true) }
 
       mockCtx = {
         db,
         pdsClient,
         mastodonBridgeAccount,
+        chatClient,
         federation,
         cfg: {
           service: { publicUrl: 'https://ap.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: 'thread' },
+          directMessages: { enabled: true },
+          privateReplies: { mode: privateReplyMode },
         },
       } as unknown as AppContext
 
       setupInboxListeners(mockCtx)
 
-      const like = new Like({
-        id: new URL('https://remote.example/activities/like-bad'),
-        // missing actor and object
+      const create = new Create({
+        id: new URL('https://remote.example/activities/create-1'),
+        actor: new Person({
+          id: new URL('https://remote.example/users/bob'),
+          preferredUsername: 'bob',
+          followers: new URL('https://remote.example/users/bob/followers'),
+          inbox: new URL('https://remote.example/users/bob/inbox'),
+        }),
+        object: new Note({
+          id: new URL('https://remote.example/notes/reply-1'),
+          to: new URL('https://remote.example/users/bob/followers'),
+          cc: new URL(`https://ap.example/users/${testData.users.alice.did}`),
+          content: '<p>Just between us</p>',
+          replyTarget: new URL(
+            `https://ap.example/posts/${testData.posts.simple.uri}`,
+          ),
+          published: Temporal.Now.instant(),
+        }),
       })
 
-      await invokeInboxListener(federation, 'Like', like)
+      await invokeInboxListener(federation, 'Create', create)
+      return { mastodonBridgeAccount, chatClient }
+    }
 
-      const count = await db.getLikesCountForPost(testData.posts.simple.uri)
-      expect(count).toBe(0)
+    it('should forward non-public replies to the post author as a DM', async () => {
+      const { mastodonBridgeAccount, chatClient } = await sendPrivateReply('dm')
+
+      expect(mastodonBridgeAccount.createRecord).not.toHaveBeenCalled()
+      expect(chatClient.sendDm).toHaveBeenCalledTimes(1)
+      const [recipient, message] = chatClient.sendDm.mock.calls[0]
+      expect(recipient).toBe(testData.users.alice.did)
+      expect(message).toContain(
+        '@bob@remote.example replied privately to your post:',
+      )
+      expect(message).toContain('Just between us')
+      expect(message).toContain('https://remote.example/notes/reply-1')
     })
 
-    it('should ignore Like for non-local post', async () => {
+    it('should drop non-public replies in drop mode', async () => {
+      const { mastodonBridgeAccount, chatClient } =
+        await sendPrivateReply('drop')
+
+      expect(mastodonBridgeAccount.createRecord).not.toHaveBeenCalled()
+      expect(chatClient.sendDm).not.toHaveBeenCalled()
+    })
+
+    it('should skip Create when Note is not a reply', async () => {
       const federation = createTestFederation()
       federation.setActorDispatcher('/users/{identifier}', () => null)
 
       const pdsClient = createMockPdsClient()
       const mastodonBridgeAccount = createMockMastodonBridgeAccount({
-        isAvailable: vi.fn().mockReturnValue(false),
+        isAvailable: vi.fn().mockReturnValue(true),
       })
 
       mockCtx = {
@@ -823,34 +1043,45 @@ describe('inbox', () => {
         cfg: {
           service: { publicUrl: 'https://ap.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: 'thread' },
+          directMessages: { enabled: true },
+          feedGenerator: { enabled: false },
         },
       } as unknown as AppContext
 
       setupInboxListeners(mockCtx)
 
-      const like = new Like({
-        id: new URL('https://remote.example/activities/like-ext'),
-        actor: new URL('https://remote.example/users/bob'),
-        object: new URL('https://other.example/notes/123'),
+      const remoteActor = new Person({
+        id: new URL('https://remote.example/users/bob'),
+        preferredUsername: 'bob',
+        inbox: new URL('https://remote.example/users/bob/inbox'),
       })
 
-      await invokeInboxListener(federation, 'Like', like)
+      // Note without replyTarget - not a reply
+      const note = new Note({
+        id: new URL('https://remote.example/notes/standalone'),
+        content: '<p>Just a standalone post</p>',
+        published: Temporal.Now.instant(),
+      })
 
-      const count = await db.getLikesCountForPost(testData.posts.simple.uri)
-      expect(count).toBe(0)
+      const create = new Create({
+        id: new URL('https://remote.example/activities/create-standalone'),
+        actor: remoteActor,
+        object: note,
+      })
+
+      await invokeInboxListener(federation, 'Create', create)
+
+      expect(mastodonBridgeAccount.createRecord).not.toHaveBeenCalled()
     })
 
-    it('should be idempotent for duplicate likes', async () => {
+    it('should skip Create when bridge account is not available', async () => {
       const federation = createTestFederation()
       federation.setActorDispatcher('/users/{identifier}', () => null)
       federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
 
-      const pdsClient = createMockPdsClient({
-        getAccount: vi.fn().mockResolvedValue({
-          did: testData.users.alice.did,
-          handle: testData.users.alice.handle,
-        }),
-      })
+      const pdsClient = createMockPdsClient()
       const mastodonBridgeAccount = createMockMastodonBridgeAccount({
         isAvailable: vi.fn().mockReturnValue(false),
       })
@@ -863,64 +1094,1620 @@ describe('inbox', () => {
         cfg: {
           service: { publicUrl: 'https://ap.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: 'thread' },
+          directMessages: { enabled: true },
         },
       } as unknown as AppContext
 
       setupInboxListeners(mockCtx)
 
-      const like = new Like({
-        id: new URL('https://remote.example/activities/like-1'),
-        actor: new URL('https://remote.example/users/bob'),
-        object: new URL(
+      const remoteActor = new Person({
+        id: new URL('https://remote.example/users/bob'),
+        preferredUsername: 'bob',
+        inbox: new URL('https://remote.example/users/bob/inbox'),
+      })
+
+      const replyNote = new Note({
+        id: new URL('https://remote.example/notes/reply-1'),
+        to: PUBLIC_COLLECTION,
+        content: '<p>Great post!</p>',
+        replyTarget: new URL(
           `https://ap.example/posts/${testData.posts.simple.uri}`,
         ),
+        published: Temporal.Now.instant(),
       })
 
-      await invokeInboxListener(federation, 'Like', like)
-      await invokeInboxListener(federation, 'Like', like)
+      const create = new Create({
+        id: new URL('https://remote.example/activities/create-1'),
+        actor: remoteActor,
+        object: replyNote,
+      })
 
-      const likes = await db.getLikesForPost(testData.posts.simple.uri)
-      expect(likes).toHaveLength(1)
+      await invokeInboxListener(federation, 'Create', create)
+
+      expect(mastodonBridgeAccount.createRecord).not.toHaveBeenCalled()
     })
-  })
 
-  describe('Announce handling', () => {
-    it('should store a valid Announce in the database', async () => {
+    it('should bridge replies to a bridged Fediverse note under the bridged post', async () => {
       const federation = createTestFederation()
       federation.setActorDispatcher('/users/{identifier}', () => null)
       federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
 
+      const bridgedUri = 'at://did:plc:bridge/app.bsky.feed.post/bridged1'
+      await db.createPostMapping({
+        atUri: bridgedUri,
+        apNoteId: 'https://remote.example/notes/original',
+        apActorId: 'https://remote.example/users/bob',
+        apActorInbox: 'https://remote.example/users/bob/inbox',
+        createdAt: new Date().toISOString(),
+      })
+
       const pdsClient = createMockPdsClient({
-        getAccount: vi.fn().mockResolvedValue({
-          did: testData.users.alice.did,
-          handle: testData.users.alice.handle,
-        }),
+        getRecord: vi.fn().mockImplementation(async (did, collection) =>
+          did === 'did:plc:bridge' && collection === 'app.bsky.feed.post'
+            ? {
+                uri: bridgedUri,
+                cid: 'bafybridged1',
+                value: {
+                  $type: 'app.bsky.feed.post',
+                  text: '@bob@remote.example replied: Hello',
+                  reply: {
+                    root: {
+                      uri: testData.posts.simple.uri,
+                      cid: testData.posts.simple.cid,
+                    },
+                    parent: {
+                      uri: testData.posts.simple.uri,
+                      cid: testData.posts.simple.cid,
+                    },
+                  },
+                  createdAt: '2024-01-15T12:00:00.000Z',
+                },
+              }
+            : null,
+        ),
       })
+
       const mastodonBridgeAccount = createMockMastodonBridgeAccount({
-        isAvailable: vi.fn().mockReturnValue(false),
+        isAvailable: vi.fn().mockReturnValue(true),
+        createRecord: vi.fn().mockResolvedValue({
+          uri: 'at://did:plc:bridge/app.bsky.feed.post/reply123',
+          cid: 'bafyreply123',
+        }),
       })
 
       mockCtx = {
         db,
         pdsClient,
+        appViewClient: { getRecord: vi.fn().mockResolvedValue(null) },
         mastodonBridgeAccount,
         federation,
         cfg: {
           service: { publicUrl: 'https://ap.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: 'thread' },
+          directMessages: { enabled: true },
         },
       } as unknown as AppContext
 
       setupInboxListeners(mockCtx)
 
-      const announce = new Announce({
-        id: new URL('https://remote.example/activities/announce-1'),
-        actor: new URL('https://remote.example/users/bob'),
-        object: new URL(
-          `https://ap.example/posts/${testData.posts.simple.uri}`,
-        ),
-      })
-
+      await invokeInboxListener(
+        federation,
+        'Create',
+        new Create({
+          id: new URL('https://other.example/activities/create-1'),
+          actor: new Person({
+            id: new URL('https://other.example/users/carol'),
+            preferredUsername: 'carol',
+            inbox: new URL('https://other.example/users/carol/inbox'),
+          }),
+          object: new Note({
+            id: new URL('https://other.example/notes/reply-1'),
+            to: PUBLIC_COLLECTION,
+            content: '<p>Agreed!</p>',
+            replyTarget: new URL('https://remote.example/notes/original'),
+            published: Temporal.Now.instant(),
+          }),
+        }),
+      )
+
+      expect(mastodonBridgeAccount.createRecord).toHaveBeenCalledTimes(1)
+      const [, record] = mastodonBridgeAccount.createRecord.mock.calls[0]
+      expect(record.reply).toEqual({
+        root: {
+          uri: testData.posts.simple.uri,
+          cid: testData.posts.simple.cid,
+        },
+        parent: { uri: bridgedUri, cid: 'bafybridged1' },
+      })
+      expect(
+        (
+          await db.getPostMappingByApNoteId(
+            'https://other.example/notes/reply-1',
+          )
+        )?.atUri,
+      ).toBe('at://did:plc:bridge/app.bsky.feed.post/reply123')
+    })
+
+    it('should bridge replies to a relayed Bluesky reply', async () => {
+      const federation = createTestFederation()
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+
+      const replyUri = 'at://did:plc:outsider/app.bsky.feed.post/reply1'
+      await db.createExternalReply({
+        atUri: replyUri,
+        parentAtUri: testData.posts.simple.uri,
+        authorDid: 'did:plc:outsider',
+        apNoteId: `https://ap.example/posts/${replyUri}`,
+        createdAt: new Date().toISOString(),
+      })
+
+      const appViewClient = {
+        getRecord: vi.fn().mockImplementation(async (did, collection) =>
+          did === 'did:plc:outsider' && collection === 'app.bsky.feed.post'
+            ? {
+                uri: replyUri,
+                cid: 'bafyoutsider1',
+                value: {
+                  $type: 'app.bsky.feed.post',
+                  text: 'Nice one',
+                  reply: {
+                    root: {
+                      uri: testData.posts.simple.uri,
+                      cid: testData.posts.simple.cid,
+                    },
+                    parent: {
+                      uri: testData.posts.simple.uri,
+                      cid: testData.posts.simple.cid,
+                    },
+                  },
+                  createdAt: '2024-01-15T12:00:00.000Z',
+                },
+              }
+            : null,
+        ),
+      }
+
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(true),
+        createRecord: vi.fn().mockResolvedValue({
+          uri: 'at://did:plc:bridge/app.bsky.feed.post/reply123',
+          cid: 'bafyreply123',
+        }),
+      })
+
+      mockCtx = {
+        db,
+        pdsClient: createMockPdsClient({
+          getAccount: vi
+            .fn()
+            .mockImplementation(async (did: string) =>
+              did === testData.users.alice.did
+                ? { did, handle: testData.users.alice.handle }
+                : null,
+            ),
+        }),
+        appViewClient,
+        mastodonBridgeAccount,
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: 'thread' },
+          directMessages: { enabled: true },
+        },
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+
+      await invokeInboxListener(
+        federation,
+        'Create',
+        new Create({
+          id: new URL('https://remote.example/activities/create-1'),
+          actor: new Person({
+            id: new URL('https://remote.example/users/bob'),
+            preferredUsername: 'bob',
+            inbox: new URL('https://remote.example/users/bob/inbox'),
+          }),
+          object: new Note({
+            id: new URL('https://remote.example/notes/reply-1'),
+            to: PUBLIC_COLLECTION,
+            content: '<p>Thanks!</p>',
+            replyTarget: new URL(`https://ap.example/posts/${replyUri}`),
+            published: Temporal.Now.instant(),
+          }),
+        }),
+      )
+
+      expect(mastodonBridgeAccount.createRecord).toHaveBeenCalledTimes(1)
+      const [, record] = mastodonBridgeAccount.createRecord.mock.calls[0]
+      expect(record.reply.parent).toEqual({
+        uri: replyUri,
+        cid: 'bafyoutsider1',
+      })
+      expect(record.reply.root.uri).toBe(testData.posts.simple.uri)
+    })
+
+    it('should embed the post a reply quotes as a record', async () => {
+      const federation = createTestFederation()
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+
+      const quotedUri = `${testData.users.alice.did}/app.bsky.feed.post/quoted1`
+      const pdsClient = createMockPdsClient({
+        getAccount: vi.fn().mockResolvedValue({
+          did: testData.users.alice.did,
+          handle: testData.users.alice.handle,
+        }),
+        getRecord: vi
+          .fn()
+          .mockImplementation(async (_did, _collection, rkey) =>
+            rkey === 'quoted1'
+              ? {
+                  uri: `at://${quotedUri}`,
+                  cid: 'bafyquoted1',
+                  value: {
+                    $type: 'app.bsky.feed.post',
+                    text: 'Quoted',
+                    createdAt: '2024-01-15T12:00:00.000Z',
+                  },
+                }
+              : {
+                  uri: testData.posts.simple.uri,
+                  cid: testData.posts.simple.cid,
+                  value: testData.posts.simple.value,
+                },
+          ),
+      })
+
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(true),
+        createRecord: vi.fn().mockResolvedValue({
+          uri: 'at://did:plc:bridge/app.bsky.feed.post/reply123',
+          cid: 'bafyreply123',
+        }),
+      })
+
+      mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount,
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: 'thread' },
+          directMessages: { enabled: true },
+        },
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+
+      const quoteUrl = `https://ap.example/posts/at://${quotedUri}`
+      await invokeInboxListener(
+        federation,
+        'Create',
+        new Create({
+          id: new URL('https://remote.example/activities/create-1'),
+          actor: new Person({
+            id: new URL('https://remote.example/users/bob'),
+            preferredUsername: 'bob',
+            inbox: new URL('https://remote.example/users/bob/inbox'),
+          }),
+          object: new Note({
+            id: new URL('https://remote.example/notes/reply-1'),
+            to: PUBLIC_COLLECTION,
+            content: `<p>See also</p><p class="quote-inline">RE: <a href="${quoteUrl}">${quoteUrl}</a></p>`,
+            quoteUrl: new URL(quoteUrl),
+            replyTarget: new URL(
+              `https://ap.example/posts/${testData.posts.simple.uri}`,
+            ),
+            published: Temporal.Now.instant(),
+          }),
+        }),
+      )
+
+      expect(mastodonBridgeAccount.createRecord).toHaveBeenCalledTimes(1)
+      const [, record] = mastodonBridgeAccount.createRecord.mock.calls[0]
+      expect(record.embed).toEqual({
+        $type: 'app.bsky.embed.record',
+        record: { uri: `at://${quotedUri}`, cid: 'bafyquoted1' },
+      })
+      expect(record.text).not.toContain('RE:')
+    })
+
+    async function bridgeReply(
+      object: APObject,
+      overrides: Partial<AppContext> = {},
+    ) {
+      const federation = createTestFederation()
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(true),
+        createRecord: vi.fn().mockResolvedValue({
+          uri: 'at://did:plc:bridge/app.bsky.feed.post/reply123',
+          cid: 'bafyreply123',
+        }),
+        uploadBlob: vi.fn(
+          async (_data: Uint8Array, mimeType: string) =>
+            new BlobRef(
+              CID.parse(
+                'bafkreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm',
+              ),
+              mimeType,
+              3,
+            ),
+        ),
+      })
+
+      mockCtx = {
+        db,
+        pdsClient: createMockPdsClient({
+          getAccount: vi.fn().mockResolvedValue({
+            did: testData.users.alice.did,
+            handle: testData.users.alice.handle,
+          }),
+          getRecord: vi.fn().mockResolvedValue({
+            uri: testData.posts.simple.uri,
+            cid: testData.posts.simple.cid,
+            value: testData.posts.simple.value,
+          }),
+        }),
+        mastodonBridgeAccount,
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: 'thread' },
+          directMessages: { enabled: true },
+        },
+        ...overrides,
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+
+      await invokeInboxListener(
+        federation,
+        'Create',
+        new Create({
+          id: new URL('https://remote.example/activities/create-1'),
+          actor: new Person({
+            id: new URL('https://remote.example/users/bob'),
+            preferredUsername: 'bob',
+            inbox: new URL('https://remote.example/users/bob/inbox'),
+          }),
+          object,
+        }),
+      )
+
+      // Tests may bring their own bridge account in the overrides
+      const { createRecord } =
+        mockCtx.mastodonBridgeAccount as unknown as typeof mastodonBridgeAccount
+      expect(createRecord).toHaveBeenCalledTimes(1)
+      const [, record] = createRecord.mock.calls[0]
+      return record
+    }
+
+    it('should recognize hashtags by the Hashtag tags of a reply', async () => {
+      const record = await bridgeReply(
+        new Note({
+          id: new URL('https://remote.example/notes/reply-1'),
+          to: PUBLIC_COLLECTION,
+          content:
+            '<p>Love it <a href="https://remote.example/tags/cats">#cats</a></p>',
+          tags: [
+            new Hashtag({
+              href: new URL('https://remote.example/tags/cats'),
+              name: '#cats',
+            }),
+          ],
+          replyTarget: new URL(
+            `https://ap.example/posts/${testData.posts.simple.uri}`,
+          ),
+          published: Temporal.Now.instant(),
+        }),
+      )
+
+      expect(record.facets).toContainEqual(
+        expect.objectContaining({
+          features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'cats' }],
+        }),
+      )
+      expect(record.facets).not.toContainEqual(
+        expect.objectContaining({
+          features: [
+            {
+              $type: 'app.bsky.richtext.facet#link',
+              uri: 'https://remote.example/tags/cats',
+            },
+          ],
+        }),
+      )
+    })
+
+    it('should resolve Bridgy Fed mentions by the Mention tags of a reply', async () => {
+      const actorUrl = 'https://bsky.brid.gy/r/https://bsky.app/profile/carol'
+      const appViewClient = {
+        getRecord: vi.fn().mockResolvedValue(null),
+        resolveHandle: vi.fn().mockResolvedValue('did:plc:carol'),
+      }
+      const record = await bridgeReply(
+        new Note({
+          id: new URL('https://remote.example/notes/reply-1'),
+          to: PUBLIC_COLLECTION,
+          content: `<p><a href="${actorUrl}" class="u-url mention">@<span>carol.bsky.social</span></a> look</p>`,
+          tags: [
+            new Mention({
+              href: new URL(actorUrl),
+              name: '@carol.bsky.social@bsky.brid.gy',
+            }),
+          ],
+          replyTarget: new URL(
+            `https://ap.example/posts/${testData.posts.simple.uri}`,
+          ),
+          published: Temporal.Now.instant(),
+        }),
+        { appViewClient } as unknown as Partial<AppContext>,
+      )
+
+      expect(appViewClient.resolveHandle).toHaveBeenCalledWith(
+        'carol.bsky.social',
+      )
+      expect(record.facets).toContainEqual(
+        expect.objectContaining({
+          features: [
+            { $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:carol' },
+          ],
+        }),
+      )
+    })
+
+    // Serves media downloads from remote.example, other requests go out
+    function mockMediaFetch() {
+      const realFetch = globalThis.fetch
+      const fetchSpy = vi
+        .spyOn(globalThis, 'fetch')
+        .mockImplementation(async (input, init) => {
+          const url = new URL(input instanceof Request ? input.url : input)
+          if (url.hostname !== 'remote.example') {
+            return realFetch(input, init)
+          }
+          const contentType = url.pathname.endsWith('.mp4')
+            ? 'video/mp4'
+            : 'image/jpeg'
+          return new Response(new Uint8Array([1, 2, 3]), {
+            headers: { 'content-type': contentType },
+          })
+        })
+      onTestFinished(() => fetchSpy.mockRestore())
+      return fetchSpy
+    }
+
+    it('should upload the media of a Video reply as a video embed', async () => {
+      const fetchSpy = mockMediaFetch()
+      const videoUrl = 'https://remote.example/videos/trip.mp4'
+
+      const record = await bridgeReply(
+        new Video({
+          id: new URL('https://remote.example/videos/watch/trip'),
+          to: PUBLIC_COLLECTION,
+          name: 'Our trip',
+          summary: 'Boats on a lake',
+          urls: [
+            new Link({
+              href: new URL('https://remote.example/w/trip'),
+              mediaType: 'text/html',
+            }),
+            new Link({ href: new URL(videoUrl), mediaType: 'video/mp4' }),
+          ],
+          replyTarget: new URL(
+            `https://ap.example/posts/${testData.posts.simple.uri}`,
+          ),
+          published: Temporal.Now.instant(),
+        }),
+      )
+
+      expect(fetchSpy).toHaveBeenCalledWith(videoUrl, expect.anything())
+      expect(record.embed).toMatchObject({
+        $type: 'app.bsky.embed.video',
+        video: { mimeType: 'video/mp4' },
+        alt: 'Boats on a lake',
+      })
+      expect(record.text).toContain('Our trip')
+      expect(record.text).toContain('https://remote.example/w/trip')
+    })
+
+    it('should upload the media of an Image reply as an image embed', async () => {
+      const fetchSpy = mockMediaFetch()
+      const imageUrl = 'https://remote.example/media/sunset.jpg'
+
+      const record = await bridgeReply(
+        new Image({
+          id: new URL('https://remote.example/p/bob/1'),
+          to: PUBLIC_COLLECTION,
+          name: 'Sunset',
+          mediaType: 'image/jpeg',
+          url: new URL(imageUrl),
+          replyTarget: new URL(
+            `https://ap.example/posts/${testData.posts.simple.uri}`,
+          ),
+          published: Temporal.Now.instant(),
+        }),
+      )
+
+      expect(fetchSpy).toHaveBeenCalledWith(imageUrl, expect.anything())
+      expect(record.embed).toMatchObject({
+        $type: 'app.bsky.embed.images',
+        images: [{ image: { mimeType: 'image/jpeg' }, alt: 'Sunset' }],
+      })
+    })
+
+    it('should bridge replies with the converter registered for their type', async () => {
+      const parent = {
+        uri: testData.posts.simple.uri,
+        cid: testData.posts.simple.cid,
+      }
+      const toRecord = vi.fn(async (_ctx, _identifier, object: APObject) => ({
+        uri: '',
+        cid: '',
+        value: {
+          $type: 'app.example.event',
+          text: object.content?.toString(),
+          reply: { root: parent, parent },
+          createdAt: '2026-01-01T12:00:00.000Z',
+        },
+      }))
+      const eventConverter = {
+        collection: 'app.example.event',
+        objectTypes: [Event],
+        toActivityPub: async () => null,
+        toRecord,
+      }
+      const fromObject = recordConverterRegistry.fromObject.bind(
+        recordConverterRegistry,
+      )
+      const converterSpy = vi
+        .spyOn(recordConverterRegistry, 'fromObject')
+        .mockImplementation(async (object) =>
+          object instanceof Event
+            ? { converter: eventConverter, object }
+            : fromObject(object),
+        )
+      onTestFinished(() => converterSpy.mockRestore())
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(true),
+        createRecord: vi.fn().mockResolvedValue({
+          uri: 'at://did:plc:bridge/app.example.event/event1',
+          cid: 'bafyevent1',
+        }),
+      })
+
+      const record = await bridgeReply(
+        new Event({
+          id: new URL('https://remote.example/events/1'),
+          to: PUBLIC_COLLECTION,
+          content: '<p>Meetup at noon</p>',
+          replyTarget: new URL(
+            `https://ap.example/posts/${testData.posts.simple.uri}`,
+          ),
+        }),
+        { mastodonBridgeAccount } as unknown as Partial<AppContext>,
+      )
+
+      expect(mastodonBridgeAccount.createRecord).toHaveBeenCalledWith(
+        'app.example.event',
+        expect.anything(),
+      )
+      expect(record.$type).toBe('app.example.event')
+      expect(record.text).toContain('Meetup at noon')
+      expect(record.text).toContain('replied:')
+      const mappings = await db.getPostMappingsByApNoteId(
+        'https://remote.example/events/1',
+      )
+      expect(mappings.map((m) => m.atUri)).toEqual([
+        'at://did:plc:bridge/app.example.event/event1',
+      ])
+    })
+
+    it('should bridge a Page reply as a summary linking to it', async () => {
+      const federation = createTestFederation()
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+
+      const pdsClient = createMockPdsClient({
+        getAccount: vi.fn().mockResolvedValue({
+          did: testData.users.alice.did,
+          handle: testData.users.alice.handle,
+        }),
+        getRecord: vi.fn().mockResolvedValue({
+          uri: testData.posts.simple.uri,
+          cid: testData.posts.simple.cid,
+          value: testData.posts.simple.value,
+        }),
+      })
+
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(true),
+        createRecord: vi.fn().mockResolvedValue({
+          uri: 'at://did:plc:bridge/app.bsky.feed.post/reply123',
+          cid: 'bafyreply123',
+        }),
+      })
+
+      mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount,
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: 'thread' },
+          directMessages: { enabled: true },
+        },
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+
+      await invokeInboxListener(
+        federation,
+        'Create',
+        new Create({
+          id: new URL('https://lemmy.example/activities/create/1'),
+          actor: new Person({
+            id: new URL('https://lemmy.example/u/bob'),
+            preferredUsername: 'bob',
+            inbox: new URL('https://lemmy.example/u/bob/inbox'),
+          }),
+          object: new Page({
+            id: new URL('https://lemmy.example/post/1'),
+            to: PUBLIC_COLLECTION,
+            name: 'Discussion of your post',
+            content: '<p>A long post body</p>',
+            replyTarget: new URL(
+              `https://ap.example/posts/${testData.posts.simple.uri}`,
+            ),
+            published: Temporal.Now.instant(),
+          }),
+        }),
+      )
+
+      expect(mastodonBridgeAccount.createRecord).toHaveBeenCalledTimes(1)
+      const [, record] = mastodonBridgeAccount.createRecord.mock.calls[0]
+      expect(record.text).toContain('Discussion of your post')
+      expect(record.text).toContain('https://lemmy.example/post/1')
+      expect(record.text).not.toContain('A long post body')
+      expect(record.reply.parent.uri).toBe(testData.posts.simple.uri)
+    })
+  })
+
+  describe('Create (direct message) handling', () => {
+    function setupDirectMessageContext() {
+      const federation = createTestFederation()
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+
+      const pdsClient = createMockPdsClient({
+        getAccount: vi.fn().mockResolvedValue({
+          did: testData.users.alice.did,
+          handle: testData.users.alice.handle,
+        }),
+      })
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(true),
+      })
+      const chatClient = { sendDm: vi.fn().mockResolvedValue(true) }
+
+      mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount,
+        chatClient,
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: 'thread' },
+          directMessages: { enabled: true },
+          feedGenerator: { enabled: false },
+        },
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+      return { federation, mastodonBridgeAccount, chatClient }
+    }
+
+    const bob = () =>
+      new Person({
+        id: new URL('https://remote.example/users/bob'),
+        preferredUsername: 'bob',
+        inbox: new URL('https://remote.example/users/bob/inbox'),
+        followers: new URL('https://remote.example/users/bob/followers'),
+      })
+
+    it('should forward a direct message to the local user as a chat message', async () => {
+      const { federation, mastodonBridgeAccount, chatClient } =
+        setupDirectMessageContext()
+
+      await invokeInboxListener(
+        federation,
+        'Create',
+        new Create({
+          id: new URL('https://remote.example/activities/dm-1'),
+          actor: bob(),
+          object: new Note({
+            id: new URL('https://remote.example/notes/dm-1'),
+            to: new URL(`https://ap.example/users/${testData.users.alice.did}`),
+            content: '<p>Hey, got a minute?</p>',
+            published: Temporal.Now.instant(),
+          }),
+        }),
+      )
+
+      expect(mastodonBridgeAccount.createRecord).not.toHaveBeenCalled()
+      expect(chatClient.sendDm).toHaveBeenCalledTimes(1)
+      const [recipient, message] = chatClient.sendDm.mock.calls[0]
+      expect(recipient).toBe(testData.users.alice.did)
+      expect(message).toContain(
+        '@bob@remote.example sent you a direct message:',
+      )
+      expect(message).toContain('Hey, got a minute?')
+
+      const thread = await db.getLatestDirectMessageThread(
+        testData.users.alice.did,
+      )
+      expect(thread).toMatchObject({
+        apActorId: 'https://remote.example/users/bob',
+        apActorInbox: 'https://remote.example/users/bob/inbox',
+        lastNoteId: 'https://remote.example/notes/dm-1',
+      })
+    })
+
+    it('should not forward notes also addressed to followers', async () => {
+      const { federation, chatClient } = setupDirectMessageContext()
+
+      await invokeInboxListener(
+        federation,
+        'Create',
+        new Create({
+          id: new URL('https://remote.example/activities/fo-1'),
+          actor: bob(),
+          object: new Note({
+            id: new URL('https://remote.example/notes/fo-1'),
+            tos: [
+              new URL('https://remote.example/users/bob/followers'),
+              new URL(`https://ap.example/users/${testData.users.alice.did}`),
+            ],
+            content: '<p>Hi followers and Alice</p>',
+            published: Temporal.Now.instant(),
+          }),
+        }),
+      )
+
+      expect(chatClient.sendDm).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Create (poll) handling', () => {
+    const pollUri = `at://${testData.users.alice.did}/app.bsky.feed.post/poll1`
+
+    function setupPollContext(createdAt = new Date().toISOString()) {
+      const federation = createTestFederation()
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+
+      const pdsClient = createMockPdsClient({
+        getAccount: vi.fn().mockResolvedValue({
+          did: testData.users.alice.did,
+          handle: testData.users.alice.handle,
+        }),
+        getRecord: vi.fn().mockImplementation(async (_did, _col, rkey) =>
+          rkey === 'poll1'
+            ? {
+                uri: pollUri,
+                cid: 'bafypoll1',
+                value: {
+                  $type: 'app.bsky.feed.post',
+                  text: 'Lunch?\n[ ] Pizza\n[ ] Tacos',
+                  createdAt,
+                },
+              }
+            : {
+                uri: testData.posts.simple.uri,
+                cid: testData.posts.simple.cid,
+                value: testData.posts.simple.value,
+              },
+        ),
+      })
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(true),
+        createRecord: vi.fn().mockResolvedValue({
+          uri: 'at://did:plc:bridge/app.bsky.feed.post/reply123',
+          cid: 'bafyreply123',
+        }),
+      })
+
+      mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount,
+        chatClient: { sendDm: vi.fn().mockResolvedValue(true) },
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: 'thread' },
+          directMessages: { enabled: true },
+        },
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+      return { federation, mastodonBridgeAccount }
+    }
+
+    const vote = (option: string) =>
+      new Create({
+        id: new URL(`https://remote.example/activities/vote-${option}`),
+        actor: new Person({
+          id: new URL('https://remote.example/users/bob'),
+          preferredUsername: 'bob',
+          inbox: new URL('https://remote.example/users/bob/inbox'),
+        }),
+        object: new Note({
+          id: new URL(`https://remote.example/notes/vote-${option}`),
+          to: new URL(`https://ap.example/users/${testData.users.alice.did}`),
+          name: option,
+          replyTarget: new URL(`https://ap.example/posts/${pollUri}`),
+        }),
+      })
+
+    it('should record a vote on a local poll', async () => {
+      const { federation, mastodonBridgeAccount } = setupPollContext()
+
+      await invokeInboxListener(federation, 'Create', vote('Tacos'))
+
+      expect(mastodonBridgeAccount.createRecord).not.toHaveBeenCalled()
+      expect(await db.getPollVoteCounts(pollUri)).toEqual(
+        new Map([['Tacos', 1]]),
+      )
+    })
+
+    it('should ignore votes for options the poll does not have', async () => {
+      const { federation } = setupPollContext()
+
+      await invokeInboxListener(federation, 'Create', vote('Sushi'))
+
+      expect(await db.getPollVoteCounts(pollUri)).toEqual(new Map())
+    })
+
+    it('should ignore votes on a closed poll', async () => {
+      const { federation } = setupPollContext('2020-01-01T00:00:00.000Z')
+
+      await invokeInboxListener(federation, 'Create', vote('Pizza'))
+
+      expect(await db.getPollVoteCounts(pollUri)).toEqual(new Map())
+    })
+
+    it('should bridge a Question reply as text listing its options', async () => {
+      const { federation, mastodonBridgeAccount } = setupPollContext()
+
+      await invokeInboxListener(
+        federation,
+        'Create',
+        new Create({
+          id: new URL('https://remote.example/activities/question-1'),
+          actor: new Person({
+            id: new URL('https://remote.example/users/bob'),
+            preferredUsername: 'bob',
+            inbox: new URL('https://remote.example/users/bob/inbox'),
+          }),
+          object: new Question({
+            id: new URL('https://remote.example/notes/question-1'),
+            to: PUBLIC_COLLECTION,
+            content: '<p>Which one?</p>',
+            replyTarget: new URL(
+              `https://ap.example/posts/${testData.posts.simple.uri}`,
+            ),
+            exclusiveOptions: [
+              new Note({
+                name: 'Yes',
+                replies: new Collection({ totalItems: 3 }),
+              }),
+              new Note({
+                name: 'No',
+                replies: new Collection({ totalItems: 1 }),
+              }),
+            ],
+            published: Temporal.Now.instant(),
+          }),
+        }),
+      )
+
+      expect(mastodonBridgeAccount.createRecord).toHaveBeenCalledTimes(1)
+      const [, record] = mastodonBridgeAccount.createRecord.mock.calls[0]
+      expect(record.text).toContain('Which one?')
+      expect(record.text).toContain('○ Yes (3 votes)')
+      expect(record.text).toContain('○ No (1 vote)')
+      expect(record.text).toContain('Vote or see results')
+    })
+  })
+
+  describe('Create (timeline post) handling', () => {
+    const remoteActorId = 'https://remote.example/users/bob'
+
+    function setupTimelineContext(longPostMode = 'thread') {
+      const federation = createTestFederation()
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(true),
+      })
+
+      mockCtx = {
+        db,
+        pdsClient: createMockPdsClient(),
+        mastodonBridgeAccount,
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: longPostMode },
+          directMessages: { enabled: true },
+          feedGenerator: { enabled: true },
+        },
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+
+      return { federation, mastodonBridgeAccount }
+    }
+
+    function createTopLevelPost(
+      to: URL[],
+      content = '<p>Hello from the Fediverse</p>',
+    ) {
+      return new Create({
+        id: new URL('https://remote.example/activities/create-top'),
+        actor: new Person({
+          id: new URL(remoteActorId),
+          preferredUsername: 'bob',
+          inbox: new URL('https://remote.example/users/bob/inbox'),
+        }),
+        object: new Note({
+          id: new URL('https://remote.example/notes/top-1'),
+          url: new URL('https://remote.example/@bob/1'),
+          content,
+          tos: to,
+          published: Temporal.Now.instant(),
+        }),
+      })
+    }
+
+    async function followRemoteActor() {
+      await db.saveOutboundFollow({
+        userDid: testData.users.alice.did,
+        actorUri: remoteActorId,
+        actorInbox: 'https://remote.example/users/bob/inbox',
+        actorSharedInbox: null,
+        activityId: 'https://ap.example/users/alice#follow-1',
+        status: 'accepted',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      })
+    }
+
+    it('should bridge public posts from followed actors into the timeline', async () => {
+      const { federation, mastodonBridgeAccount } = setupTimelineContext()
+      await followRemoteActor()
+
+      await invokeInboxListener(
+        federation,
+        'Create',
+        createTopLevelPost([PUBLIC_COLLECTION]),
+      )
+
+      expect(mastodonBridgeAccount.createRecord).toHaveBeenCalledOnce()
+      const [, record] = mastodonBridgeAccount.createRecord.mock.calls[0]
+      expect(record.text).toContain('posted:')
+      expect(record.reply).toBeUndefined()
+
+      const { posts } = await db.getTimelineForUser({
+        userDid: testData.users.alice.did,
+        limit: 10,
+      })
+      expect(posts).toHaveLength(1)
+      expect(posts[0].apNoteId).toBe('https://remote.example/notes/top-1')
+    })
+
+    it('should cut long posts to a single post in truncate mode', async () => {
+      const { federation, mastodonBridgeAccount } =
+        setupTimelineContext('truncate')
+      await followRemoteActor()
+
+      await invokeInboxListener(
+        federation,
+        'Create',
+        createTopLevelPost(
+          [PUBLIC_COLLECTION],
+          `<p>${'word '.repeat(150)}</p>`,
+        ),
+      )
+
+      expect(mastodonBridgeAccount.createRecord).toHaveBeenCalledOnce()
+      const [, record] = mastodonBridgeAccount.createRecord.mock.calls[0]
+      expect(record.text).toMatch(/word…\n\nRead more$/)
+      expect(record.facets.at(-1).features[0].uri).toBe(
+        'https://remote.example/@bob/1',
+      )
+    })
+
+    it('should ignore posts from actors nobody follows', async () => {
+      const { federation, mastodonBridgeAccount } = setupTimelineContext()
+
+      await invokeInboxListener(
+        federation,
+        'Create',
+        createTopLevelPost([PUBLIC_COLLECTION]),
+      )
+
+      expect(mastodonBridgeAccount.createRecord).not.toHaveBeenCalled()
+    })
+
+    it('should ignore non-public posts from followed actors', async () => {
+      const { federation, mastodonBridgeAccount } = setupTimelineContext()
+      await followRemoteActor()
+
+      await invokeInboxListener(
+        federation,
+        'Create',
+        createTopLevelPost([
+          new URL('https://remote.example/users/bob/followers'),
+        ]),
+      )
+
+      expect(mastodonBridgeAccount.createRecord).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Update (edited reply) handling', () => {
+    const bridgedUri = 'at://did:plc:bridge/app.bsky.feed.post/reply123'
+    const remoteActorId = 'https://remote.example/users/bob'
+    const remoteNoteId = 'https://remote.example/notes/reply-1'
+    const replyRef = {
+      root: { uri: testData.posts.simple.uri, cid: testData.posts.simple.cid },
+      parent: {
+        uri: testData.posts.simple.uri,
+        cid: testData.posts.simple.cid,
+      },
+    }
+
+    function setupUpdateContext() {
+      const federation = createTestFederation()
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+
+      const pdsClient = createMockPdsClient({
+        getRecord: vi.fn().mockResolvedValue({
+          uri: bridgedUri,
+          cid: 'bafyreply123',
+          value: {
+            $type: 'app.bsky.feed.post',
+            text: '@bob@remote.example replied:\n\nGreat post!',
+            createdAt: '2024-01-15T13:00:00.000Z',
+            reply: replyRef,
+          },
+        }),
+      })
+
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(true),
+      })
+
+      mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount,
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+          linkPreviews: { enabled: false },
+          longPosts: { mode: 'thread' },
+          directMessages: { enabled: true },
+        },
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+
+      return { federation, pdsClient, mastodonBridgeAccount }
+    }
+
+    function buildUpdate(actorId: string) {
+      const remoteActor = new Person({
+        id: new URL(actorId),
+        preferredUsername: 'bob',
+        inbox: new URL(`${actorId}/inbox`),
+      })
+
+      const editedNote = new Note({
+        id: new URL(remoteNoteId),
+        content: '<p>Great post! (edited)</p>',
+        replyTarget: new URL(
+          `https://ap.example/posts/${testData.posts.simple.uri}`,
+        ),
+        published: Temporal.Now.instant(),
+      })
+
+      return new Update({
+        id: new URL('https://remote.example/activities/update-1'),
+        actor: remoteActor,
+        object: editedNote,
+      })
+    }
+
+    it('should rewrite the bridged post keeping reply refs and mapping', async () => {
+      const { federation, mastodonBridgeAccount } = setupUpdateContext()
+
+      await db.createPostMapping({
+        atUri: bridgedUri,
+        apNoteId: remoteNoteId,
+        apActorId: remoteActorId,
+        apActorInbox: `${remoteActorId}/inbox`,
+        createdAt: new Date().toISOString(),
+      })
+
+      await invokeInboxListener(
+        federation,
+        'Update',
+        buildUpdate(remoteActorId),
+      )
+
+      expect(mastodonBridgeAccount.putRecord).toHaveBeenCalledWith(
+        'app.bsky.feed.post',
+        'reply123',
+        expect.objectContaining({
+          text: expect.stringContaining('(edited)'),
+          createdAt: '2024-01-15T13:00:00.000Z',
+          reply: replyRef,
+        }),
+      )
+
+      const mapping = await db.getPostMappingByApNoteId(remoteNoteId)
+      expect(mapping?.atUri).toBe(bridgedUri)
+    })
+
+    it('should ignore Update when no mapping exists for the note', async () => {
+      const { federation, mastodonBridgeAccount } = setupUpdateContext()
+
+      await invokeInboxListener(
+        federation,
+        'Update',
+        buildUpdate(remoteActorId),
+      )
+
+      expect(mastodonBridgeAccount.putRecord).not.toHaveBeenCalled()
+    })
+
+    it('should ignore Update from an actor other than the original author', async () => {
+      const { federation, mastodonBridgeAccount } = setupUpdateContext()
+
+      await db.createPostMapping({
+        atUri: bridgedUri,
+        apNoteId: remoteNoteId,
+        apActorId: remoteActorId,
+        apActorInbox: `${remoteActorId}/inbox`,
+        createdAt: new Date().toISOString(),
+      })
+
+      await invokeInboxListener(
+        federation,
+        'Update',
+        buildUpdate('https://evil.example/users/mallory'),
+      )
+
+      expect(mastodonBridgeAccount.putRecord).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Accept/Reject (outbound follow) handling', () => {
+    const activityId =
+      'https://ap.example/users/did:plc:testuser123#follow-1234'
+
+    let federation: ReturnType<typeof createTestFederation>
+
+    beforeEach(async () => {
+      federation = createTestFederation()
+      mockCtx = {
+        db,
+        pdsClient: createMockPdsClient(),
+        mastodonBridgeAccount: createMockMastodonBridgeAccount(),
+        federation,
+        cfg: { service: { publicUrl: 'https://ap.example' } },
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+
+      await db.saveOutboundFollow({
+        userDid: 'did:plc:testuser123',
+        actorUri: 'https://remote.example/users/alice',
+        actorInbox: 'https://remote.example/users/alice/inbox',
+        actorSharedInbox: null,
+        activityId,
+        status: 'pending',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      })
+    })
+
+    it('should mark the outbound follow as accepted on Accept(Follow)', async () => {
+      const accept = new Accept({
+        id: new URL('https://remote.example/users/alice#accepts/1'),
+        actor: new URL('https://remote.example/users/alice'),
+        object: new Follow({
+          id: new URL(activityId),
+          actor: new URL('https://ap.example/users/did:plc:testuser123'),
+          object: new URL('https://remote.example/users/alice'),
+        }),
+      })
+
+      await invokeInboxListener(federation, 'Accept', accept)
+
+      const follow = await db.getOutboundFollowByActivityId(activityId)
+      expect(follow?.status).toBe('accepted')
+    })
+
+    it('should mark the outbound follow as rejected on Reject(Follow)', async () => {
+      const reject = new Reject({
+        id: new URL('https://remote.example/users/alice#rejects/1'),
+        actor: new URL('https://remote.example/users/alice'),
+        object: new URL(activityId),
+      })
+
+      await invokeInboxListener(federation, 'Reject', reject)
+
+      const follow = await db.getOutboundFollowByActivityId(activityId)
+      expect(follow?.status).toBe('rejected')
+    })
+
+    it('should ignore Accept from an actor other than the followed one', async () => {
+      const accept = new Accept({
+        id: new URL('https://evil.example/users/mallory#accepts/1'),
+        actor: new URL('https://evil.example/users/mallory'),
+        object: new URL(activityId),
+      })
+
+      await invokeInboxListener(federation, 'Accept', accept)
+
+      const follow = await db.getOutboundFollowByActivityId(activityId)
+      expect(follow?.status).toBe('pending')
+    })
+  })
+
+  describe('Like handling', () => {
+    it('should store a valid Like in the database', async () => {
+      const federation = createTestFederation()
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+
+      const pdsClient = createMockPdsClient({
+        getAccount: vi.fn().mockResolvedValue({
+          did: testData.users.alice.did,
+          handle: testData.users.alice.handle,
+        }),
+      })
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(false),
+      })
+
+      mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount,
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+        },
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+
+      const like = new Like({
+        id: new URL('https://remote.example/activities/like-1'),
+        actor: new URL('https://remote.example/users/bob'),
+        object: new URL(
+          `https://ap.example/posts/${testData.posts.simple.uri}`,
+        ),
+      })
+
+      await invokeInboxListener(federation, 'Like', like)
+
+      const likes = await db.getLikesForPost(testData.posts.simple.uri)
+      expect(likes).toHaveLength(1)
+      expect(likes[0].activityId).toBe(
+        'https://remote.example/activities/like-1',
+      )
+      expect(likes[0].apActorId).toBe('https://remote.example/users/bob')
+      expect(likes[0].postAtUri).toBe(testData.posts.simple.uri)
+      expect(likes[0].postAuthorDid).toBe(testData.users.alice.did)
+    })
+
+    it('should count a Like of a relayed Bluesky reply toward the reply', async () => {
+      const federation = createTestFederation()
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+
+      const pdsClient = createMockPdsClient({
+        getAccount: vi.fn().mockResolvedValue(null),
+      })
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(false),
+      })
+
+      mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount,
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+        },
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+
+      const replyUri = 'at://did:plc:outsider/app.bsky.feed.post/reply1'
+      await db.createExternalReply({
+        atUri: replyUri,
+        parentAtUri: testData.posts.simple.uri,
+        authorDid: 'did:plc:outsider',
+        apNoteId: `https://ap.example/posts/${replyUri}`,
+        createdAt: new Date().toISOString(),
+      })
+
+      await invokeInboxListener(
+        federation,
+        'Like',
+        new Like({
+          id: new URL('https://remote.example/activities/like-ext'),
+          actor: new URL('https://remote.example/users/bob'),
+          object: new URL(`https://ap.example/posts/${replyUri}`),
+        }),
+      )
+
+      const likes = await db.getLikesForPost(replyUri)
+      expect(likes).toHaveLength(1)
+      expect(likes[0].postAuthorDid).toBe(testData.users.alice.did)
+    })
+
+    it('should ignore Like with missing required fields', async () => {
+      const federation = createTestFederation()
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+
+      const pdsClient = createMockPdsClient()
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(false),
+      })
+
+      mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount,
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+        },
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+
+      const like = new Like({
+        id: new URL('https://remote.example/activities/like-bad'),
+        // missing actor and object
+      })
+
+      await invokeInboxListener(federation, 'Like', like)
+
+      const count = await db.getLikesCountForPost(testData.posts.simple.uri)
+      expect(count).toBe(0)
+    })
+
+    it('should ignore Like for non-local post', async () => {
+      const federation = createTestFederation()
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+
+      const pdsClient = createMockPdsClient()
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(false),
+      })
+
+      mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount,
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+        },
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+
+      const like = new Like({
+        id: new URL('https://remote.example/activities/like-ext'),
+        actor: new URL('https://remote.example/users/bob'),
+        object: new URL('https://other.example/notes/123'),
+      })
+
+      await invokeInboxListener(federation, 'Like', like)
+
+      const count = await db.getLikesCountForPost(testData.posts.simple.uri)
+      expect(count).toBe(0)
+    })
+
+    it('should be idempotent for duplicate likes', async () => {
+      const federation = createTestFederation()
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+
+      const pdsClient = createMockPdsClient({
+        getAccount: vi.fn().mockResolvedValue({
+          did: testData.users.alice.did,
+          handle: testData.users.alice.handle,
+        }),
+      })
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(false),
+      })
+
+      mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount,
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+        },
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+
+      const like = new Like({
+        id: new URL('https://remote.example/activities/like-1'),
+        actor: new URL('https://remote.example/users/bob'),
+        object: new URL(
+          `https://ap.example/posts/${testData.posts.simple.uri}`,
+        ),
+      })
+
+      await invokeInboxListener(federation, 'Like', like)
+      await invokeInboxListener(federation, 'Like', like)
+
+      const likes = await db.getLikesForPost(testData.posts.simple.uri)
+      expect(likes).toHaveLength(1)
+    })
+  })
+
+  describe('Engagement handling', () => {
+    it('should store activities with the converter registered for their type', async () => {
+      const storeEngagement = vi.fn().mockResolvedValue(undefined)
+      const flagConverter = {
+        collection: 'app.example.flag',
+        activityTypes: [Flag],
+        toActivityPub: async () => null,
+        toRecord: async () => null,
+        storeEngagement,
+      }
+      const typesSpy = vi
+        .spyOn(recordConverterRegistry, 'getEngagementTypes')
+        .mockReturnValue([Flag])
+      const converterSpy = vi
+        .spyOn(recordConverterRegistry, 'getByActivityType')
+        .mockReturnValue(flagConverter)
+      onTestFinished(() => {
+        typesSpy.mockRestore()
+        converterSpy.mockRestore()
+      })
+
+      const federation = createTestFederation()
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+
+      mockCtx = {
+        db,
+        pdsClient: createMockPdsClient({
+          getAccount: vi.fn().mockResolvedValue({
+            did: testData.users.alice.did,
+            handle: testData.users.alice.handle,
+          }),
+        }),
+        mastodonBridgeAccount: createMockMastodonBridgeAccount(),
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+        },
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+
+      await invokeInboxListener(
+        federation,
+        'Flag',
+        new Flag({
+          id: new URL('https://remote.example/activities/flag-1'),
+          actor: new URL('https://remote.example/users/bob'),
+          object: new URL(
+            `https://ap.example/posts/${testData.posts.simple.uri}`,
+          ),
+        }),
+      )
+
+      expect(storeEngagement).toHaveBeenCalledWith(db, {
+        activityId: 'https://remote.example/activities/flag-1',
+        apActorId: 'https://remote.example/users/bob',
+        postAtUri: testData.posts.simple.uri,
+        postAuthorDid: testData.users.alice.did,
+        createdAt: expect.any(String),
+      })
+    })
+  })
+
+  describe('Announce handling', () => {
+    it('should store a valid Announce in the database', async () => {
+      const federation = createTestFederation()
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+
+      const pdsClient = createMockPdsClient({
+        getAccount: vi.fn().mockResolvedValue({
+          did: testData.users.alice.did,
+          handle: testData.users.alice.handle,
+        }),
+      })
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(false),
+      })
+
+      mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount,
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+        },
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+
+      const announce = new Announce({
+        id: new URL('https://remote.example/activities/announce-1'),
+        actor: new URL('https://remote.example/users/bob'),
+        object: new URL(
+          `https://ap.example/posts/${testData.posts.simple.uri}`,
+        ),
+      })
+
       await invokeInboxListener(federation, 'Announce', announce)
 
       const reposts = await db.getRepostsForPost(testData.posts.simple.uri)
@@ -933,6 +2720,55 @@ describe('inbox', () => {
       expect(reposts[0].postAuthorDid).toBe(testData.users.alice.did)
     })
 
+    it('should count a Announce of a relayed Bluesky reply toward the reply', async () => {
+      const federation = createTestFederation()
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+
+      const pdsClient = createMockPdsClient({
+        getAccount: vi.fn().mockResolvedValue(null),
+      })
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(false),
+      })
+
+      mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount,
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+        },
+      } as unknown as AppContext
+
+      setupInboxListeners(mockCtx)
+
+      const replyUri = 'at://did:plc:outsider/app.bsky.feed.post/reply1'
+      await db.createExternalReply({
+        atUri: replyUri,
+        parentAtUri: testData.posts.simple.uri,
+        authorDid: 'did:plc:outsider',
+        apNoteId: `https://ap.example/posts/${replyUri}`,
+        createdAt: new Date().toISOString(),
+      })
+
+      await invokeInboxListener(
+        federation,
+        'Announce',
+        new Announce({
+          id: new URL('https://remote.example/activities/announce-ext'),
+          actor: new URL('https://remote.example/users/bob'),
+          object: new URL(`https://ap.example/posts/${replyUri}`),
+        }),
+      )
+
+      const reposts = await db.getRepostsForPost(replyUri)
+      expect(reposts).toHaveLength(1)
+      expect(reposts[0].postAuthorDid).toBe(testData.users.alice.did)
+    })
+
     it('should ignore Announce with missing required fields', async () => {
       const federation = createTestFederation()
       federation.setActorDispatcher('/users/{identifier}', () => null)
@@ -0,0 +1,88 @@
+import { createFederation, MemoryKvStore } from '@fedify/fedify'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { EngagementCountCache } from '../../appview-client'
+import type { AppContext } from '../../context'
+import type { APDatabase } from '../../db'
+import { createMockPdsClient, createTestDb, testData } from '../../test-utils'
+import { setupOutboxDispatcher } from '../outbox'
+
+const postUri = testData.posts.simple.uri
+
+describe('Note object dispatcher', () => {
+  let db: APDatabase
+
+  beforeEach(async () => {
+    db = await createTestDb()
+  })
+
+  afterEach(async () => {
+    await db.close()
+  })
+
+  function setup(threadgate: Record<string, unknown> | null) {
+    const federation = createFederation<void>({ kv: new MemoryKvStore() })
+    federation.setActorDispatcher('/users/{+identifier}', () => null)
+    const appViewClient = {
+      getRecord: vi.fn().mockResolvedValue(null),
+      getPostCounts: vi.fn().mockResolvedValue(new Map()),
+    }
+    federation.setFollowersDispatcher(
+      '/users/{+identifier}/followers',
+      () => null,
+    )
+
+    const ctx = {
+      db,
+      federation,
+      pdsClient: createMockPdsClient({
+        getRecord: vi.fn(async (_did: string, collection: string) => {
+          if (collection === 'app.bsky.feed.post') {
+            return testData.posts.simple
+          }
+          if (collection === 'app.bsky.feed.threadgate' && threadgate) {
+            return { uri: postUri, cid: 'bafygate', value: threadgate }
+          }
+          return null
+        }) as never,
+      }),
+      appViewClient,
+      engagementCounts: new EngagementCountCache(appViewClient),
+      cfg: { threadgates: { visibility: 'followers' } },
+    } as unknown as AppContext
+
+    setupOutboxDispatcher(ctx)
+    return federation
+  }
+
+  function fetchNote(federation: ReturnType<typeof setup>) {
+    return federation.fetch(
+      new Request(`https://ap.example/posts/${postUri}`, {
+        headers: { accept: 'application/activity+json' },
+      }),
+      { contextData: undefined },
+    )
+  }
+
+  it('should serve public posts to anyone', async () => {
+    const res = await fetchNote(setup(null))
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({
+      type: 'Note',
+      content: expect.stringContaining('Hello world!'),
+    })
+  })
+
+  it('should not serve followers-only posts to unsigned requests', async () => {
+    const res = await fetchNote(
+      setup({
+        $type: 'app.bsky.feed.threadgate',
+        post: postUri,
+        allow: [],
+        createdAt: '2024-01-15T12:00:00.000Z',
+      }),
+    )
+
+    expect(res.status).toBe(404)
+  })
+})
@@ -0,0 +1,239 @@
+import { createFederation, MemoryKvStore } from '@fedify/fedify'
+import { Note } from '@fedify/vocab'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { EngagementCountCache } from '../../appview-client'
+import type { AppContext } from '../../context'
+import type { APDatabase } from '../../db'
+import { createMockPdsClient, createTestDb, testData } from '../../test-utils'
+import { setupPostCollectionDispatchers } from '../post-collections'
+
+const postUri = testData.posts.simple.uri
+
+describe('post collections', () => {
+  let db: APDatabase
+
+  beforeEach(async () => {
+    db = await createTestDb()
+  })
+
+  afterEach(async () => {
+    await db.close()
+  })
+
+  function setup(
+    replyUris: string[] = [],
+    blueskyCounts = { likeCount: 0, repostCount: 0 },
+    threadgate: Record<string, unknown> | null = null,
+  ) {
+    const federation = createFederation<void>({ kv: new MemoryKvStore() })
+    federation.setActorDispatcher('/users/{+identifier}', () => null)
+    federation.setFollowersDispatcher(
+      '/users/{+identifier}/followers',
+      () => null,
+    )
+    federation.setObjectDispatcher(Note, '/posts/{+uri}', () => null)
+    const appViewClient = {
+      getRecord: vi.fn().mockResolvedValue(null),
+      getReplyUris: vi.fn().mockResolvedValue(replyUris),
+      getPostCounts: vi
+        .fn()
+        .mockResolvedValue(
+          new Map([
+            [postUri, { ...blueskyCounts, replyCount: replyUris.length }],
+          ]),
+        ),
+    }
+
+    const ctx = {
+      db,
+      federation,
+      pdsClient: createMockPdsClient({
+        getRecord: vi.fn(async (_did: string, collection: string) => {
+          if (collection === 'app.bsky.feed.post') {
+            return testData.posts.simple
+          }
+          if (collection === 'app.bsky.feed.threadgate' && threadgate) {
+            return { uri: postUri, cid: 'bafygate', value: threadgate }
+          }
+          return null
+        }) as never,
+        getAccounts: vi.fn(
+          async (dids: string[]) =>
+            new Map(
+              dids
+                .filter((did) => did === testData.users.bob.did)
+                .map((did) => [did, { did }]),
+            ),
+        ) as never,
+      }),
+      appViewClient,
+      engagementCounts: new EngagementCountCache(appViewClient),
+      cfg: { threadgates: { visibility: 'followers' } },
+    } as unknown as AppContext
+
+    setupPostCollectionDispatchers(ctx)
+    return { federation, appViewClient }
+  }
+
+  async function fetchCollection(
+    federation: ReturnType<typeof setup>['federation'],
+    path: string,
+  ) {
+    const res = await federation.fetch(
+      new Request(`https://ap.example${path}`, {
+        headers: { accept: 'application/activity+json' },
+      }),
+      { contextData: undefined },
+    )
+    return {
+      status: res.status,
+      body: (res.ok ? await res.json() : {}) as {
+        totalItems?: number
+        items?: unknown
+      },
+    }
+  }
+
+  // JSON-LD compaction leaves a single item unwrapped
+  const itemsOf = (body: { items?: unknown }) => [body.items ?? []].flat()
+
+  it('should list the Fediverse likes of a post', async () => {
+    const { federation } = setup()
+    await db.createLike({
+      activityId: 'https://remote.example/activities/like-1',
+      postAtUri: postUri,
+      postAuthorDid: testData.users.alice.did,
+      apActorId: 'https://remote.example/users/bob',
+      createdAt: new Date().toISOString(),
+    })
+
+    const { status, body } = await fetchCollection(
+      federation,
+      `/posts/${postUri}/likes`,
+    )
+
+    expect(status).toBe(200)
+    expect(body.totalItems).toBe(1)
+    expect(itemsOf(body)).toEqual([
+      expect.objectContaining({
+        id: 'https://remote.example/activities/like-1',
+        type: 'Like',
+        actor: 'https://remote.example/users/bob',
+        object: `https://ap.example/posts/${postUri}`,
+      }),
+    ])
+  })
+
+  it('should count Bluesky likes and reposts like the Note does', async () => {
+    const { federation } = setup([], { likeCount: 120, repostCount: 7 })
+    await db.createLike({
+      activityId: 'https://remote.example/activities/like-1',
+      postAtUri: postUri,
+      postAuthorDid: testData.users.alice.did,
+      apActorId: 'https://remote.example/users/bob',
+      createdAt: new Date().toISOString(),
+    })
+
+    const likes = await fetchCollection(federation, `/posts/${postUri}/likes`)
+    const shares = await fetchCollection(federation, `/posts/${postUri}/shares`)
+
+    expect(likes.body.totalItems).toBe(121)
+    expect(itemsOf(likes.body)).toHaveLength(1)
+    expect(shares.body.totalItems).toBe(7)
+  })
+
+  it('should list the Fediverse boosts of a post', async () => {
+    const { federation } = setup()
+    await db.createRepost({
+      activityId: 'https://remote.example/activities/announce-1',
+      postAtUri: postUri,
+      postAuthorDid: testData.users.alice.did,
+      apActorId: 'https://remote.example/users/bob',
+      createdAt: new Date().toISOString(),
+    })
+
+    const { body } = await fetchCollection(
+      federation,
+      `/posts/${postUri}/shares`,
+    )
+
+    expect(body.totalItems).toBe(1)
+    expect(itemsOf(body)[0]).toMatchObject({
+      id: 'https://remote.example/activities/announce-1',
+      type: 'Announce',
+    })
+  })
+
+  it('should list bridged, relayed and local replies', async () => {
+    const bridgedUri = 'at://did:plc:bridge/app.bsky.feed.post/bridged'
+    const relayedUri = 'at://did:plc:outsider/app.bsky.feed.post/relayed'
+    const localUri = `at://${testData.users.bob.did}/app.bsky.feed.post/local`
+    const otherUri = 'at://did:plc:stranger/app.bsky.feed.post/other'
+    const { federation, appViewClient } = setup([
+      bridgedUri,
+      relayedUri,
+      localUri,
+      otherUri,
+    ])
+
+    await db.createPostMapping({
+      atUri: bridgedUri,
+      apNoteId: 'https://remote.example/notes/reply-1',
+      apActorId: 'https://remote.example/users/bob',
+      apActorInbox: 'https://remote.example/users/bob/inbox',
+      createdAt: new Date().toISOString(),
+    })
+    await db.createExternalReply({
+      atUri: relayedUri,
+      parentAtUri: postUri,
+      authorDid: 'did:plc:outsider',
+      apNoteId: `https://ap.example/posts/${relayedUri}`,
+      createdAt: new Date().toISOString(),
+    })
+
+    const { body } = await fetchCollection(
+      federation,
+      `/posts/${postUri}/replies`,
+    )
+
+    expect(body.totalItems).toBe(3)
+    expect(itemsOf(body)).toEqual([
+      expect.objectContaining({ id: 'https://remote.example/notes/reply-1' }),
+      expect.objectContaining({
+        id: `https://ap.example/posts/${relayedUri}`,
+      }),
+      expect.objectContaining({ id: `https://ap.example/posts/${localUri}` }),
+    ])
+    expect(appViewClient.getReplyUris).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not serve collections of records that are not posts', async () => {
+    const { federation } = setup()
+
+    const { status } = await fetchCollection(
+      federation,
+      `/posts/at://${testData.users.alice.did}/app.bsky.feed.like/abc/likes`,
+    )
+
+    expect(status).toBe(404)
+  })
+
+  it.each(['likes', 'shares', 'replies'])(
+    'should not serve the %s of followers-only posts to unsigned requests',
+    async (collection) => {
+      const { federation } = setup([], undefined, {
+        $type: 'app.bsky.feed.threadgate',
+        post: postUri,
+        allow: [],
+        createdAt: '2024-01-15T12:00:00.000Z',
+      })
+
+      const { status } = await fetchCollection(
+        federation,
+        `/posts/${postUri}/${collection}`,
+      )
+
+      expect(status).toBe(404)
+    },
+  )
+})
@@ -0,0 +1,2 @@
+export { createFeedGeneratorRouter } from './router'
+export { getFeedUri, publishFeedGeneratorRecord } from './record'
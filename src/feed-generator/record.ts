@@ -0,0 +1,52 @@
+import type { AppContext } from '../context'
+import { logger } from '../logger'
+
+export const FEED_GENERATOR_RKEY = 'fediverse'
+
+/**
+ * AT URI of the timeline feed, published from the mastodon bridge account.
+ * Returns null while the bridge account is unavailable.
+ */
+export function getFeedUri(ctx: AppContext): string | null {
+  const bridgeDid = ctx.mastodonBridgeAccount.did
+  if (!ctx.mastodonBridgeAccount.isAvailable() || bridgeDid === null) {
+    return null
+  }
+  return `at://${bridgeDid}/app.bsky.feed.generator/${FEED_GENERATOR_RKEY}`
+}
+
+/**
+ * Publish (or refresh) the `app.bsky.feed.generator` record that lets
+ * Bluesky clients discover the timeline feed served by this service.
+ */
+export async function publishFeedGeneratorRecord(
+  ctx: AppContext,
+): Promise<void> {
+  const { did, displayName, description } = ctx.cfg.feedGenerator
+
+  try {
+    const existing = await ctx.pdsClient.getRecord(
+      ctx.mastodonBridgeAccount.did as string,
+      'app.bsky.feed.generator',
+      FEED_GENERATOR_RKEY,
+    )
+    const existingValue = existing?.value as { createdAt?: string } | undefined
+
+    const result = await ctx.mastodonBridgeAccount.putRecord(
+      'app.bsky.feed.generator',
+      FEED_GENERATOR_RKEY,
+      {
+        $type: 'app.bsky.feed.generator',
+        did,
+        displayName,
+        description,
+        createdAt: existingValue?.createdAt ?? new Date().toISOString(),
+      },
+    )
+    logger.info('feed generator record published: {uri}', {
+      uri: result.uri,
+    })
+  } catch (err) {
+    logger.error('failed to publish feed generator record', { err })
+  }
+}
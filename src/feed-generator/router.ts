@@ -0,0 +1,116 @@
+import { IdResolver, MemoryCache } from '@atproto/identity'
+import { verifyJwt } from '@atproto/xrpc-server'
+import express from 'express'
+import type { AppContext } from '../context'
+import { getWideEvent } from '../logging'
+import { getFeedUri } from './record'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 100
+
+/**
+ * Read the requesting user's DID from the service auth JWT sent by the
+ * AppView, after checking its signature against the issuer's signing key,
+ * its audience and its expiry. Returns null for missing or invalid tokens.
+ */
+async function getViewerDid(
+  req: express.Request,
+  serviceDid: string,
+  idResolver: IdResolver,
+): Promise<string | null> {
+  const header = req.headers.authorization
+  if (!header?.startsWith('Bearer ')) {
+    return null
+  }
+
+  try {
+    const payload = await verifyJwt(
+      header.slice('Bearer '.length),
+      serviceDid,
+      null,
+      (iss, forceRefresh) =>
+        idResolver.did.resolveAtprotoKey(iss.split('#')[0], forceRefresh),
+    )
+    return payload.iss.split('#')[0]
+  } catch (err) {
+    getWideEvent()?.set('feed.auth_error', String(err))
+    return null
+  }
+}
+
+/**
+ * Feed generator endpoints serving the timeline of bridged posts from
+ * Fediverse accounts each local user follows.
+ */
+export function createFeedGeneratorRouter(ctx: AppContext): express.Router {
+  const router = express.Router()
+  const { did: serviceDid } = ctx.cfg.feedGenerator
+  const idResolver = new IdResolver({ didCache: new MemoryCache() })
+
+  router.get('/.well-known/did.json', (_req, res) => {
+    res.json({
+      '@context': ['https://www.w3.org/ns/did/v1'],
+      id: serviceDid,
+      service: [
+        {
+          id: '#bsky_fg',
+          type: 'BskyFeedGenerator',
+          serviceEndpoint: ctx.cfg.service.publicUrl,
+        },
+      ],
+    })
+  })
+
+  router.get('/xrpc/app.bsky.feed.describeFeedGenerator', (_req, res) => {
+    const feedUri = getFeedUri(ctx)
+    res.json({
+      did: serviceDid,
+      feeds: feedUri ? [{ uri: feedUri }] : [],
+    })
+  })
+
+  router.get('/xrpc/app.bsky.feed.getFeedSkeleton', async (req, res, next) => {
+    const event = getWideEvent()
+    event?.set('feed.uri', req.query.feed)
+
+    try {
+      const feedUri = getFeedUri(ctx)
+      if (!feedUri || req.query.feed !== feedUri) {
+        res
+          .status(400)
+          .json({ error: 'UnknownFeed', message: 'Unknown feed requested' })
+        return
+      }
+
+      const limit = Math.min(
+        Number(req.query.limit) || DEFAULT_LIMIT,
+        MAX_LIMIT,
+      )
+      const cursor =
+        typeof req.query.cursor === 'string' ? req.query.cursor : null
+
+      const viewerDid = await getViewerDid(req, serviceDid, idResolver)
+      event?.set('feed.viewer_did', viewerDid)
+      if (!viewerDid) {
+        res.json({ feed: [] })
+        return
+      }
+
+      const { posts, nextCursor } = await ctx.db.getTimelineForUser({
+        userDid: viewerDid,
+        cursor,
+        limit,
+      })
+      event?.set('feed.count', posts.length)
+
+      res.json({
+        feed: posts.map((post) => ({ post: post.atUri })),
+        ...(nextCursor ? { cursor: nextCursor } : {}),
+      })
+    } catch (err) {
+      next(err)
+    }
+  })
+
+  return router
+}
@@ -0,0 +1,110 @@
+import type { AddressInfo } from 'node:net'
+import { Secp256k1Keypair } from '@atproto/crypto'
+import { DidResolver } from '@atproto/identity'
+import { createServiceJwt } from '@atproto/xrpc-server'
+import express from 'express'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { AppContext } from '../../context'
+import { createMockMastodonBridgeAccount, testData } from '../../test-utils'
+import { createFeedGeneratorRouter } from '../router'
+
+const serviceDid = 'did:web:ap.example'
+const feedUri = 'at://did:plc:bridge/app.bsky.feed.generator/fediverse'
+
+describe('feed generator router', () => {
+  let server: ReturnType<express.Application['listen']>
+  let baseUrl: string
+  let keypair: Secp256k1Keypair
+  let getTimelineForUser: ReturnType<typeof vi.fn>
+
+  beforeEach(async () => {
+    keypair = await Secp256k1Keypair.create()
+    vi.spyOn(DidResolver.prototype, 'resolveAtprotoKey').mockImplementation(
+      async (did: string) => {
+        if (did !== testData.users.alice.did) {
+          throw new Error(`Unknown DID: ${did}`)
+        }
+        return keypair.did()
+      },
+    )
+    getTimelineForUser = vi.fn().mockResolvedValue({
+      posts: [{ atUri: 'at://did:plc:bridge/app.bsky.feed.post/abc' }],
+      nextCursor: null,
+    })
+
+    const ctx = {
+      db: { getTimelineForUser },
+      mastodonBridgeAccount: createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(true),
+        _did: 'did:plc:bridge',
+      }),
+      cfg: {
+        service: { publicUrl: 'https://ap.example' },
+        feedGenerator: { did: serviceDid },
+      },
+    } as unknown as AppContext
+
+    const app = express()
+    app.use(createFeedGeneratorRouter(ctx))
+    server = app.listen(0, '127.0.0.1')
+    await new Promise((resolve) => server.once('listening', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  function getFeedSkeleton(token: string) {
+    return fetch(
+      `${baseUrl}/xrpc/app.bsky.feed.getFeedSkeleton?feed=${encodeURIComponent(feedUri)}`,
+      { headers: { Authorization: `Bearer ${token}` } },
+    )
+  }
+
+  function signToken(aud: string) {
+    return createServiceJwt({
+      iss: testData.users.alice.did,
+      aud,
+      lxm: 'app.bsky.feed.getFeedSkeleton',
+      keypair,
+    })
+  }
+
+  it('should serve the timeline of the user a verified token names', async () => {
+    const res = await getFeedSkeleton(await signToken(serviceDid))
+
+    expect(await res.json()).toEqual({
+      feed: [{ post: 'at://did:plc:bridge/app.bsky.feed.post/abc' }],
+    })
+    expect(getTimelineForUser).toHaveBeenCalledWith(
+      expect.objectContaining({ userDid: testData.users.alice.did }),
+    )
+  })
+
+  it('should not trust tokens with a forged signature', async () => {
+    const header = Buffer.from(
+      JSON.stringify({ typ: 'JWT', alg: 'ES256K' }),
+    ).toString('base64url')
+    const payload = Buffer.from(
+      JSON.stringify({
+        iss: testData.users.alice.did,
+        aud: serviceDid,
+        exp: Math.floor(Date.now() / 1000) + 60,
+      }),
+    ).toString('base64url')
+
+    const res = await getFeedSkeleton(`${header}.${payload}.forged`)
+
+    expect(await res.json()).toEqual({ feed: [] })
+    expect(getTimelineForUser).not.toHaveBeenCalled()
+  })
+
+  it('should not trust tokens meant for another service', async () => {
+    const res = await getFeedSkeleton(await signToken('did:web:other.example'))
+
+    expect(await res.json()).toEqual({ feed: [] })
+    expect(getTimelineForUser).not.toHaveBeenCalled()
+  })
+})
@@ -5,15 +5,25 @@ import {
   Activity,
   Announce,
   Delete,
+  isActor,
   Like,
+  Mention,
   Note,
   PUBLIC_COLLECTION,
   Undo,
+  Update,
+  type Object as APObject,
+  type Recipient,
 } from '@fedify/vocab'
+import { Temporal } from '@js-temporal/polyfill'
 import { WebSocket } from 'ws'
 import { AppContext } from '../context'
-import type { RecordConverter } from '../conversion'
-import { recordConverterRegistry } from '../federation'
+import {
+  isLocalUser,
+  resolveRemoteMentionTarget,
+  type RecordConverter,
+} from '../conversion'
+import { buildPerson, recordConverterRegistry } from '../federation'
 import { logger } from '../logger'
 import { createWideEvent } from '../logging'
 
@@ -40,6 +50,22 @@ interface CommitEvent {
   seq: number
 }
 
+interface IdentityEvent {
+  did: string
+  seq: number
+}
+
+function dedupeRecipients(recipients: Recipient[]): Recipient[] {
+  const byId = new Map<string, Recipient>()
+  for (const recipient of recipients) {
+    const key = recipient.id?.href ?? recipient.inboxId?.href
+    if (key && !byId.has(key)) {
+      byId.set(key, recipient)
+    }
+  }
+  return [...byId.values()]
+}
+
 export class FirehoseProcessor {
   private running = false
   private abortController: AbortController | null = null
@@ -141,6 +167,14 @@ export class FirehoseProcessor {
 
       // Check the message type from the header
       // The type is stored in header.t as '#commit', '#identity', '#account', etc.
+      if (header.t === '#identity') {
+        await this.processIdentity({
+          did: (body.did as string) ?? '',
+          seq: (body.seq as number) ?? 0,
+        })
+        return
+      }
+
       if (header.t !== '#commit') {
         return
       }
@@ -164,26 +198,58 @@ export class FirehoseProcessor {
     }
   }
 
-  private async processCommit(commitEvent: CommitEvent) {
-    const did = commitEvent.repo
+  private isBridgeAccount(did: string): boolean {
+    return (
+      (this.ctx.mastodonBridgeAccount.isAvailable() &&
+        did === this.ctx.mastodonBridgeAccount.did) ||
+      (this.ctx.blueskyBridgeAccount.isAvailable() &&
+        did === this.ctx.blueskyBridgeAccount.did)
+    )
+  }
 
-    // Skip events from bridge accounts - they should not federate to ActivityPub
-    if (
-      this.ctx.mastodonBridgeAccount.isAvailable() &&
-      did === this.ctx.mastodonBridgeAccount.did
-    ) {
+  private async processIdentity(identityEvent: IdentityEvent) {
+    if (!identityEvent.did || this.isBridgeAccount(identityEvent.did)) {
       return
     }
 
-    if (
-      this.ctx.blueskyBridgeAccount.isAvailable() &&
-      did === this.ctx.blueskyBridgeAccount.did
-    ) {
+    const fedifyContext = this.ctx.federation.createContext(
+      new URL(this.ctx.cfg.service.publicUrl),
+    )
+
+    await this.processActorUpdate(
+      fedifyContext,
+      identityEvent.did,
+      'identity',
+      identityEvent.seq,
+    )
+  }
+
+  private async processCommit(commitEvent: CommitEvent) {
+    const did = commitEvent.repo
+
+    // Skip events from bridge accounts - they should not federate to ActivityPub
+    if (this.isBridgeAccount(did)) {
       return
     }
 
     for (const op of commitEvent.ops) {
       const collection = op.path.split('/')[0]
+
+      const fedifyContext = this.ctx.federation.createContext(
+        new URL(this.ctx.cfg.service.publicUrl),
+      )
+
+      // Profile changes are federated as an Update of the actor itself
+      if (collection === 'app.bsky.actor.profile') {
+        await this.processActorUpdate(
+          fedifyContext,
+          did,
+          'profile',
+          commitEvent.seq,
+        )
+        continue
+      }
+
       const recordConverter = recordConverterRegistry.get(collection)
       if (!recordConverter) {
         continue
@@ -191,10 +257,6 @@ export class FirehoseProcessor {
 
       const uri = `at://${did}/${op.path}`
 
-      const fedifyContext = this.ctx.federation.createContext(
-        new URL(this.ctx.cfg.service.publicUrl),
-      )
-
       if (op.action === 'create') {
         await this.processCreate(
           fedifyContext,
@@ -204,6 +266,15 @@ export class FirehoseProcessor {
           recordConverter,
           commitEvent.seq,
         )
+      } else if (op.action === 'update') {
+        await this.processUpdate(
+          fedifyContext,
+          did,
+          uri,
+          collection,
+          recordConverter,
+          commitEvent.seq,
+        )
       } else if (op.action === 'delete') {
         await this.processDelete(fedifyContext, did, uri, commitEvent.seq)
       }
@@ -245,7 +316,12 @@ export class FirehoseProcessor {
         did,
         record,
         this.ctx.pdsClient,
-        { db: this.ctx.db },
+        {
+          db: this.ctx.db,
+          appViewClient: this.ctx.appViewClient,
+          mentionTargets: this.ctx.mentionTargets,
+          threadgateVisibility: this.ctx.cfg.threadgates.visibility,
+        },
       )
 
       if (!conversionResult?.activity) {
@@ -258,21 +334,6 @@ export class FirehoseProcessor {
       event.set('activity.type', activity.constructor.name)
       event.set('activity.id', activity.id?.href)
 
-      // Check if this is a reply to a bridge post - if so, also send to the original author
-      const recordValue = record.value as {
-        reply?: { parent?: { uri: string } }
-      }
-      let originalAuthorInbox: string | undefined
-      if (recordValue.reply?.parent?.uri) {
-        const mapping = await this.ctx.db.getPostMapping(
-          recordValue.reply.parent.uri,
-        )
-        if (mapping) {
-          originalAuthorInbox = mapping.apActorInbox
-          event.set('activity.is_bridge_reply', true)
-        }
-      }
-
       let sentToFollowers = false
       try {
         await fedifyContext.sendActivity(
@@ -287,6 +348,15 @@ export class FirehoseProcessor {
 
       event.set('send.sent_to_followers', sentToFollowers)
 
+      await this.sendActivityToDirectRecipients({
+        fedifyContext,
+        did,
+        record,
+        object: conversionResult.object,
+        activity,
+        event,
+      })
+
       // Add posts to monitored list for external reply discovery via Constellation
       if (collection === 'app.bsky.feed.post') {
         try {
@@ -302,29 +372,151 @@ export class FirehoseProcessor {
         }
       }
 
-      // Send to original AP author's inbox if this is a reply to a bridge post
-      if (originalAuthorInbox) {
-        const mapping = await this.ctx.db.getPostMapping(
-          recordValue.reply!.parent!.uri,
-        )
-        if (mapping) {
-          try {
-            await fedifyContext.sendActivity(
-              { identifier: did },
-              {
-                id: new URL(mapping.apActorId),
-                inboxId: new URL(mapping.apActorInbox),
-              },
-              activity,
-            )
-            event.set('send.sent_to_original_author', true)
-          } catch (sendErr) {
-            event.set('send.original_author_error', String(sendErr))
-          }
-        }
+      event.setOutcome(sentToFollowers ? 'success' : 'error')
+      event.emit()
+    } catch (err) {
+      event.setError(err instanceof Error ? err : new Error(String(err)))
+      event.setOutcome('error')
+      event.emit()
+    }
+  }
+
+  private async processUpdate(
+    fedifyContext: Context<void>,
+    did: string,
+    uri: string,
+    collection: string,
+    recordConverter: RecordConverter,
+    seq: number,
+  ) {
+    const event = createWideEvent('firehose_update')
+      .set('firehose.seq', seq)
+      .set('firehose.action', 'update')
+      .set('user.did', did)
+      .set('record.uri', uri)
+      .set('record.collection', collection)
+
+    try {
+      const record = await this.ctx.pdsClient.getRecord(
+        did,
+        collection,
+        new AtUri(uri).rkey,
+      )
+
+      if (!record) {
+        event.setOutcome('ignored').set('ignored_reason', 'record_not_found')
+        event.emit()
+        return
       }
 
-      event.setOutcome(sentToFollowers ? 'success' : 'error')
+      const conversionResult = await recordConverter.toActivityPub(
+        fedifyContext,
+        did,
+        record,
+        this.ctx.pdsClient,
+        {
+          db: this.ctx.db,
+          appViewClient: this.ctx.appViewClient,
+          mentionTargets: this.ctx.mentionTargets,
+          threadgateVisibility: this.ctx.cfg.threadgates.visibility,
+        },
+      )
+
+      // Only records that map to an AP object (e.g. posts) can be updated
+      if (!conversionResult?.object?.id) {
+        event.setOutcome('ignored').set('ignored_reason', 'no_object')
+        event.emit()
+        return
+      }
+
+      const updated = Temporal.Now.instant()
+      const object = conversionResult.object.clone({ updated })
+      const activity = new Update({
+        id: new URL(`#update-${updated.epochMilliseconds}`, object.id!),
+        actor: fedifyContext.getActorUri(did),
+        tos: object.toIds,
+        ccs: object.ccIds,
+        updated,
+        object,
+      })
+
+      event.set('activity.type', 'Update')
+      event.set('activity.id', activity.id?.href)
+
+      await this.sendActivityToFollowers({
+        fedifyContext,
+        did,
+        activity,
+        event,
+      })
+
+      // Edits reach everyone who received the post
+      await this.sendActivityToDirectRecipients({
+        fedifyContext,
+        did,
+        record,
+        object,
+        activity,
+        event,
+      })
+
+      event.setOutcome('success')
+      event.emit()
+    } catch (err) {
+      event.setError(err instanceof Error ? err : new Error(String(err)))
+      event.setOutcome('error')
+      event.emit()
+    }
+  }
+
+  private async processActorUpdate(
+    fedifyContext: Context<void>,
+    did: string,
+    trigger: 'profile' | 'identity',
+    seq: number,
+  ) {
+    const event = createWideEvent('firehose_actor_update')
+      .set('firehose.seq', seq)
+      .set('firehose.trigger', trigger)
+      .set('user.did', did)
+
+    try {
+      const account = await this.ctx.pdsClient.getAccount(did)
+      if (!account || !account.handle) {
+        event.setOutcome('ignored').set('ignored_reason', 'account_not_found')
+        event.emit()
+        return
+      }
+
+      event.set('user.handle', account.handle)
+
+      const person = await buildPerson(this.ctx, fedifyContext, {
+        did: account.did,
+        handle: account.handle,
+      })
+
+      const updated = Temporal.Now.instant()
+      const activity = new Update({
+        id: new URL(`#update-${updated.epochMilliseconds}`, person.id!),
+        actor: person.id,
+        to: PUBLIC_COLLECTION,
+        cc: fedifyContext.getFollowersUri(did),
+        updated,
+        object: person,
+      })
+
+      event.set('activity.type', 'Update')
+      event.set('activity.id', activity.id?.href)
+
+      await this.sendActivityToFollowers({
+        fedifyContext,
+        did,
+        activity,
+        event,
+        preferSharedInbox: true,
+      })
+
+      event.setOutcome('success')
       event.emit()
     } catch (err) {
       event.setError(err instanceof Error ? err : new Error(String(err)))
@@ -387,6 +579,151 @@ export class FirehoseProcessor {
     }
   }
 
+  /**
+   * Fediverse authors in the reply chain and mentioned actors may not follow
+   * the author, deliver a post's activities to their inboxes directly.
+   */
+  private async sendActivityToDirectRecipients(opts: {
+    fedifyContext: Context<void>
+    did: string
+    record: { value: unknown }
+    object: APObject | null
+    activity: Activity
+    event: ReturnType<typeof createWideEvent>
+  }) {
+    const { fedifyContext, did, record, object, activity, event } = opts
+    const recordValue = record.value as {
+      reply?: { root?: { uri: string }; parent?: { uri: string } }
+    }
+    const replyChainRecipients = await this.getReplyChainRecipients(
+      fedifyContext,
+      recordValue.reply,
+      event,
+    )
+    const mentionedRecipients = await this.getMentionedRecipients(
+      fedifyContext,
+      object,
+    )
+    const directRecipients = dedupeRecipients([
+      ...replyChainRecipients,
+      ...mentionedRecipients,
+    ])
+    if (directRecipients.length === 0) {
+      return
+    }
+
+    try {
+      await fedifyContext.sendActivity(
+        { identifier: did },
+        directRecipients,
+        activity,
+      )
+      event.set('send.sent_to_reply_chain', replyChainRecipients.length)
+      event.set('send.sent_to_mentioned', mentionedRecipients.length)
+    } catch (sendErr) {
+      event.set('send.direct_error', String(sendErr))
+    }
+  }
+
+  /**
+   * Resolve the authors of the parent and root posts of a reply that have
+   * an ActivityPub actor: Fediverse authors of bridged posts, and Bluesky
+   * users on other PDSes who are bridged by Bridgy Fed.
+   */
+  private async getReplyChainRecipients(
+    fedifyContext: Context<void>,
+    reply: { root?: { uri: string }; parent?: { uri: string } } | undefined,
+    event: ReturnType<typeof createWideEvent>,
+  ): Promise<Recipient[]> {
+    const uris = [reply?.parent?.uri, reply?.root?.uri].filter(
+      (uri): uri is string => !!uri,
+    )
+
+    const recipients: Recipient[] = []
+    for (const [index, uri] of [...new Set(uris)].entries()) {
+      try {
+        const mapping = await this.ctx.db.getPostMapping(uri)
+        if (mapping) {
+          if (index === 0) {
+            event.set('activity.is_bridge_reply', true)
+          }
+          recipients.push({
+            id: new URL(mapping.apActorId),
+            inboxId: new URL(mapping.apActorInbox),
+          })
+          continue
+        }
+
+        const authorDid = new AtUri(uri).host
+        if (
+          this.isBridgeAccount(authorDid) ||
+          (await isLocalUser(this.ctx.pdsClient, authorDid))
+        ) {
+          continue
+        }
+
+        // Resolved like mentions, so the lookups share the same cache
+        const target = await resolveRemoteMentionTarget(
+          fedifyContext,
+          authorDid,
+          {
+            appViewClient: this.ctx.appViewClient,
+            mentionTargets: this.ctx.mentionTargets,
+          },
+        )
+        const actor = target?.actor
+          ? await fedifyContext.lookupObject(target.actor)
+          : null
+        if (isActor(actor) && actor.inboxId) {
+          recipients.push(actor)
+        }
+      } catch (err) {
+        event.set('send.reply_chain_error', String(err))
+      }
+    }
+    return recipients
+  }
+
+  /**
+   * Resolve the inboxes of remote actors in an object's Mention tags, from
+   * the remote actor cache or by fetching the actor.
+   */
+  private async getMentionedRecipients(
+    fedifyContext: Context<void>,
+    object: APObject | null,
+  ): Promise<Recipient[]> {
+    if (!object) return []
+
+    const recipients: Recipient[] = []
+    for await (const tag of object.getTags()) {
+      if (!(tag instanceof Mention) || !tag.href) continue
+      // Local users are notified on Bluesky, not through ActivityPub
+      if (tag.href.origin === fedifyContext.canonicalOrigin) continue
+
+      const cached = await this.ctx.db.getRemoteActorByUri(tag.href.href)
+      if (cached) {
+        recipients.push({
+          id: new URL(cached.actorUri),
+          inboxId: new URL(cached.actorInbox),
+          endpoints: cached.actorSharedInbox
+            ? { sharedInbox: new URL(cached.actorSharedInbox) }
+            : null,
+        })
+        continue
+      }
+
+      try {
+        const actor = await fedifyContext.lookupObject(tag.href)
+        if (isActor(actor) && actor.inboxId) {
+          recipients.push(actor)
+        }
+      } catch {
+        // Unreachable actors are skipped
+      }
+    }
+    return recipients
+  }
+
   private buildDeleteActivity(
     fedifyContext: Context<void>,
     did: string,
@@ -443,14 +780,16 @@ export class FirehoseProcessor {
     did: string
     activity: Activity
     event?: ReturnType<typeof createWideEvent>
+    preferSharedInbox?: boolean
   }) {
-    const { fedifyContext, did, activity, event } = opts
+    const { fedifyContext, did, activity, event, preferSharedInbox } = opts
 
     try {
       await fedifyContext.sendActivity(
         { identifier: did },
         'followers',
         activity,
+        { preferSharedInbox },
       )
       event?.set('send.sent_to_followers', true)
     } catch (sendErr) {
@@ -1,7 +1,16 @@
 import { createFederation } from '@fedify/testing'
-import { Announce, Delete, Note, PUBLIC_COLLECTION, Undo } from '@fedify/vocab'
+import {
+  Announce,
+  Delete,
+  Note,
+  Person,
+  PUBLIC_COLLECTION,
+  Undo,
+  Update,
+} from '@fedify/vocab'
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import type { AppContext } from '../../context'
+import { TtlCache } from '../../conversion'
 import type { APDatabase } from '../../db'
 import {
   createTestDb,
@@ -12,6 +21,42 @@ import {
 } from '../../test-utils'
 import { FirehoseProcessor } from '../processor'
 
+/**
+ * Record the arguments of sendActivity on every context the processor
+ * creates, to check recipients other than followers. Other methods of the
+ * contexts can be stubbed with `setupContext`.
+ */
+function captureSendActivity(
+  federation: ReturnType<typeof createFederation<void>>,
+  setupContext?: (context: ReturnType<typeof federation.createContext>) => void,
+): unknown[][] {
+  const sendCalls: unknown[][] = []
+  const createContext = federation.createContext.bind(federation)
+  vi.spyOn(federation, 'createContext').mockImplementation(
+    (...args: Parameters<typeof createContext>) => {
+      const context = createContext(...args)
+      setupContext?.(context)
+      const sendActivity = context.sendActivity.bind(context)
+      vi.spyOn(context, 'sendActivity').mockImplementation(
+        async (...sendArgs: Parameters<typeof sendActivity>) => {
+          sendCalls.push(sendArgs)
+          return sendActivity(...sendArgs)
+        },
+      )
+      return context
+    },
+  )
+  return sendCalls
+}
+
+function getDirectRecipients(
+  sendCalls: unknown[][],
+): Array<{ id: URL; inboxId: URL }> {
+  const call = sendCalls.find(([, recipients]) => Array.isArray(recipients))
+  expect(call).toBeDefined()
+  return call![1] as Array<{ id: URL; inboxId: URL }>
+}
+
 describe('FirehoseProcessor', () => {
   let db: APDatabase
 
@@ -55,6 +100,7 @@ describe('FirehoseProcessor', () => {
           service: { publicUrl: 'https://ap.example' },
           pds: { url: 'https://pds.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
         },
       } as unknown as AppContext
 
@@ -112,6 +158,7 @@ describe('FirehoseProcessor', () => {
           service: { publicUrl: 'https://ap.example' },
           pds: { url: 'https://pds.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
         },
       } as unknown as AppContext
 
@@ -163,6 +210,7 @@ describe('FirehoseProcessor', () => {
           service: { publicUrl: 'https://ap.example' },
           pds: { url: 'https://pds.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
         },
       } as unknown as AppContext
 
@@ -190,14 +238,261 @@ describe('FirehoseProcessor', () => {
       expect(sentActivities).toHaveLength(0)
     })
 
-    it('should skip non-create actions', async () => {
+    it('should deliver Create to the inboxes of mentioned Fediverse actors', async () => {
       const federation = createFederation<void>({
         contextData: undefined,
         origin: 'https://ap.example',
       })
       federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
 
-      const pdsClient = createMockPdsClient()
+      const sendCalls = captureSendActivity(federation)
+
+      await db.saveRemoteActor({
+        acct: 'alice@mastodon.social',
+        actorUri: 'https://mastodon.social/users/alice',
+        actorInbox: 'https://mastodon.social/users/alice/inbox',
+        actorSharedInbox: 'https://mastodon.social/inbox',
+        fetchedAt: new Date().toISOString(),
+      })
+
+      const pdsClient = createMockPdsClient({
+        getRecord: vi.fn().mockResolvedValue({
+          uri: testData.posts.simple.uri,
+          cid: testData.posts.simple.cid,
+          value: {
+            $type: 'app.bsky.feed.post',
+            text: 'Hello @alice@mastodon.social!',
+            createdAt: '2024-01-15T12:00:00.000Z',
+          },
+        }),
+      })
+
+      const mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount: createMockMastodonBridgeAccount({
+          _did: 'did:plc:bridge',
+        }),
+        blueskyBridgeAccount: createMockBlueskyBridgeAccount(),
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          pds: { url: 'https://pds.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
+        },
+      } as unknown as AppContext
+
+      const processor = new FirehoseProcessor(mockCtx)
+      const processCommit = (processor as any).processCommit.bind(processor)
+
+      await processCommit({
+        repo: testData.users.alice.did,
+        ops: [
+          {
+            action: 'create',
+            path: 'app.bsky.feed.post/abc123',
+            cid: 'bafyreiabc123',
+          },
+        ],
+        seq: 1,
+      })
+
+      const [recipient] = getDirectRecipients(sendCalls)
+      expect(recipient.id.href).toBe('https://mastodon.social/users/alice')
+      expect(recipient.inboxId.href).toBe(
+        'https://mastodon.social/users/alice/inbox',
+      )
+    })
+
+    it('should deliver replies to the Fediverse authors of the parent and root', async () => {
+      const federation = createFederation<void>({
+        contextData: undefined,
+        origin: 'https://ap.example',
+      })
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+      const sendCalls = captureSendActivity(federation)
+
+      const rootUri = 'at://did:plc:bridge/app.bsky.feed.post/root'
+      const parentUri = 'at://did:plc:bridge/app.bsky.feed.post/parent'
+      for (const [atUri, user] of [
+        [rootUri, 'carol'],
+        [parentUri, 'dave'],
+      ]) {
+        await db.createPostMapping({
+          atUri,
+          apNoteId: `https://remote.example/notes/${user}`,
+          apActorId: `https://remote.example/users/${user}`,
+          apActorInbox: `https://remote.example/users/${user}/inbox`,
+          createdAt: new Date().toISOString(),
+        })
+      }
+
+      const pdsClient = createMockPdsClient({
+        getRecord: vi.fn().mockResolvedValue({
+          uri: testData.posts.simple.uri,
+          cid: testData.posts.simple.cid,
+          value: {
+            $type: 'app.bsky.feed.post',
+            text: 'Replying down the thread',
+            createdAt: '2024-01-15T12:00:00.000Z',
+            reply: {
+              root: { uri: rootUri, cid: 'bafyroot' },
+              parent: { uri: parentUri, cid: 'bafyparent' },
+            },
+          },
+        }),
+      })
+
+      const mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount: createMockMastodonBridgeAccount({
+          _did: 'did:plc:bridge',
+        }),
+        blueskyBridgeAccount: createMockBlueskyBridgeAccount(),
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          pds: { url: 'https://pds.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
+        },
+      } as unknown as AppContext
+
+      const processor = new FirehoseProcessor(mockCtx)
+      const processCommit = (processor as any).processCommit.bind(processor)
+
+      await processCommit({
+        repo: testData.users.alice.did,
+        ops: [
+          {
+            action: 'create',
+            path: 'app.bsky.feed.post/abc123',
+            cid: 'bafyreiabc123',
+          },
+        ],
+        seq: 1,
+      })
+
+      const recipients = getDirectRecipients(sendCalls)
+      expect(recipients.map((recipient) => recipient.inboxId.href)).toEqual([
+        'https://remote.example/users/dave/inbox',
+        'https://remote.example/users/carol/inbox',
+      ])
+    })
+
+    it('should cache the Bridgy Fed actors of Bluesky authors in the reply chain', async () => {
+      const federation = createFederation<void>({
+        contextData: undefined,
+        origin: 'https://ap.example',
+      })
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+      const remoteDid = 'did:plc:remote'
+      const bridgyFedActor = new Person({
+        id: new URL(`https://bsky.brid.gy/ap/${remoteDid}`),
+        inbox: new URL(`https://bsky.brid.gy/ap/${remoteDid}/inbox`),
+      })
+      const sendCalls = captureSendActivity(federation, (context) => {
+        vi.spyOn(context, 'lookupWebFinger').mockResolvedValue({
+          subject: 'acct:remote.bsky.social@bsky.brid.gy',
+          links: [
+            {
+              rel: 'self',
+              type: 'application/activity+json',
+              href: bridgyFedActor.id!.href,
+            },
+          ],
+        })
+        vi.spyOn(context, 'lookupObject').mockResolvedValue(bridgyFedActor)
+      })
+
+      const parentUri = `at://${remoteDid}/app.bsky.feed.post/parent`
+      const pdsClient = createMockPdsClient({
+        getAccount: vi.fn().mockResolvedValue(null),
+        getRecord: vi.fn().mockResolvedValue({
+          uri: testData.posts.simple.uri,
+          cid: testData.posts.simple.cid,
+          value: {
+            $type: 'app.bsky.feed.post',
+            text: 'Replying to a bridged Bluesky user',
+            createdAt: '2024-01-15T12:00:00.000Z',
+            reply: {
+              root: { uri: parentUri, cid: 'bafyparent' },
+              parent: { uri: parentUri, cid: 'bafyparent' },
+            },
+          },
+        }),
+      })
+      const appViewClient = {
+        getHandle: vi.fn().mockResolvedValue('remote.bsky.social'),
+      }
+
+      const mockCtx = {
+        db,
+        pdsClient,
+        appViewClient,
+        mentionTargets: new TtlCache(60_000),
+        mastodonBridgeAccount: createMockMastodonBridgeAccount({
+          _did: 'did:plc:bridge',
+        }),
+        blueskyBridgeAccount: createMockBlueskyBridgeAccount(),
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          pds: { url: 'https://pds.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
+        },
+      } as unknown as AppContext
+
+      const processor = new FirehoseProcessor(mockCtx)
+      const processCommit = (processor as any).processCommit.bind(processor)
+
+      for (const [seq, rkey] of ['abc123', 'def456'].entries()) {
+        await processCommit({
+          repo: testData.users.alice.did,
+          ops: [
+            {
+              action: 'create',
+              path: `app.bsky.feed.post/${rkey}`,
+              cid: 'bafyreiabc123',
+            },
+          ],
+          seq,
+        })
+      }
+
+      const directSends = sendCalls.filter(([, recipients]) =>
+        Array.isArray(recipients),
+      )
+      expect(directSends).toHaveLength(2)
+      for (const [, recipients] of directSends) {
+        expect(
+          (recipients as Array<{ inboxId: URL }>).map((r) => r.inboxId.href),
+        ).toEqual([`https://bsky.brid.gy/ap/${remoteDid}/inbox`])
+      }
+      expect(appViewClient.getHandle).toHaveBeenCalledTimes(1)
+    })
+
+    it('should send Update activity to followers for edited posts', async () => {
+      const federation = createFederation<void>({
+        contextData: undefined,
+        origin: 'https://ap.example',
+      })
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+
+      const pdsClient = createMockPdsClient({
+        getRecord: vi.fn().mockResolvedValue({
+          uri: testData.posts.simple.uri,
+          cid: 'bafyupdate',
+          value: { ...testData.posts.simple.value, text: 'Hello edited!' },
+        }),
+      })
 
       const mastodonBridgeAccount = createMockMastodonBridgeAccount({
         isAvailable: vi.fn().mockReturnValue(true),
@@ -214,13 +509,13 @@ describe('FirehoseProcessor', () => {
           service: { publicUrl: 'https://ap.example' },
           pds: { url: 'https://pds.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
         },
       } as unknown as AppContext
 
       const processor = new FirehoseProcessor(mockCtx)
       const processCommit = (processor as any).processCommit.bind(processor)
 
-      // Send update ops (not create or delete)
       await processCommit({
         repo: testData.users.alice.did,
         ops: [
@@ -233,8 +528,156 @@ describe('FirehoseProcessor', () => {
         seq: 1,
       })
 
-      // Verify the record was NOT fetched
-      expect(pdsClient.getRecord).not.toHaveBeenCalled()
+      expect(pdsClient.getRecord).toHaveBeenCalledWith(
+        testData.users.alice.did,
+        'app.bsky.feed.post',
+        'abc123',
+      )
+
+      const sentActivities = federation.sentActivities
+      expect(sentActivities).toHaveLength(1)
+      const activity = sentActivities[0].activity
+      expect(activity).toBeInstanceOf(Update)
+      expect(activity.updated).toBeDefined()
+      const object = await (activity as Update).getObject()
+      expect(object).toBeInstanceOf(Note)
+      expect(object?.updated).toBeDefined()
+      expect(object?.content?.toString()).toContain('Hello edited!')
+      expect(activity.toIds.map((u) => u.href)).toContain(
+        PUBLIC_COLLECTION.href,
+      )
+    })
+
+    it('should deliver edited replies to the Fediverse authors of the parent and root', async () => {
+      const federation = createFederation<void>({
+        contextData: undefined,
+        origin: 'https://ap.example',
+      })
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+      const sendCalls = captureSendActivity(federation)
+
+      const rootUri = 'at://did:plc:bridge/app.bsky.feed.post/root'
+      const parentUri = 'at://did:plc:bridge/app.bsky.feed.post/parent'
+      for (const [atUri, user] of [
+        [rootUri, 'carol'],
+        [parentUri, 'dave'],
+      ]) {
+        await db.createPostMapping({
+          atUri,
+          apNoteId: `https://remote.example/notes/${user}`,
+          apActorId: `https://remote.example/users/${user}`,
+          apActorInbox: `https://remote.example/users/${user}/inbox`,
+          createdAt: new Date().toISOString(),
+        })
+      }
+
+      const pdsClient = createMockPdsClient({
+        getRecord: vi.fn().mockResolvedValue({
+          uri: testData.posts.simple.uri,
+          cid: 'bafyupdate',
+          value: {
+            $type: 'app.bsky.feed.post',
+            text: 'Replying down the thread, edited',
+            createdAt: '2024-01-15T12:00:00.000Z',
+            reply: {
+              root: { uri: rootUri, cid: 'bafyroot' },
+              parent: { uri: parentUri, cid: 'bafyparent' },
+            },
+          },
+        }),
+      })
+
+      const mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount: createMockMastodonBridgeAccount({
+          _did: 'did:plc:bridge',
+        }),
+        blueskyBridgeAccount: createMockBlueskyBridgeAccount(),
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          pds: { url: 'https://pds.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
+        },
+      } as unknown as AppContext
+
+      const processor = new FirehoseProcessor(mockCtx)
+      const processCommit = (processor as any).processCommit.bind(processor)
+
+      await processCommit({
+        repo: testData.users.alice.did,
+        ops: [
+          {
+            action: 'update',
+            path: 'app.bsky.feed.post/abc123',
+            cid: 'bafyupdate',
+          },
+        ],
+        seq: 1,
+      })
+
+      const recipients = getDirectRecipients(sendCalls)
+      expect(recipients.map((recipient) => recipient.inboxId.href)).toEqual([
+        'https://remote.example/users/dave/inbox',
+        'https://remote.example/users/carol/inbox',
+      ])
+      expect(sendCalls.every((call) => call[2] instanceof Update)).toBe(true)
+    })
+
+    it('should not send Update for records without an AP object', async () => {
+      const federation = createFederation<void>({
+        contextData: undefined,
+        origin: 'https://ap.example',
+      })
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+      federation.setObjectDispatcher(Note, '/posts/{uri}', () => null)
+
+      const pdsClient = createMockPdsClient({
+        getAccount: vi.fn().mockResolvedValue({
+          did: testData.users.alice.did,
+          handle: testData.users.alice.handle,
+        }),
+        getRecord: vi.fn().mockResolvedValue(testData.likes.localLike),
+      })
+
+      const mastodonBridgeAccount = createMockMastodonBridgeAccount({
+        isAvailable: vi.fn().mockReturnValue(true),
+        _did: 'did:plc:bridge',
+      })
+
+      const mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount,
+        blueskyBridgeAccount: createMockBlueskyBridgeAccount(),
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          pds: { url: 'https://pds.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
+        },
+      } as unknown as AppContext
+
+      const processor = new FirehoseProcessor(mockCtx)
+      const processCommit = (processor as any).processCommit.bind(processor)
+
+      await processCommit({
+        repo: testData.users.bob.did,
+        ops: [
+          {
+            action: 'update',
+            path: 'app.bsky.feed.like/like123',
+            cid: 'bafyupdate',
+          },
+        ],
+        seq: 1,
+      })
+
+      expect(federation.sentActivities).toHaveLength(0)
     })
   })
 
@@ -264,6 +707,7 @@ describe('FirehoseProcessor', () => {
           service: { publicUrl: 'https://ap.example' },
           pds: { url: 'https://pds.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
         },
       } as unknown as AppContext
 
@@ -319,6 +763,7 @@ describe('FirehoseProcessor', () => {
           service: { publicUrl: 'https://ap.example' },
           pds: { url: 'https://pds.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
         },
       } as unknown as AppContext
 
@@ -377,6 +822,7 @@ describe('FirehoseProcessor', () => {
           service: { publicUrl: 'https://ap.example' },
           pds: { url: 'https://pds.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
         },
       } as unknown as AppContext
 
@@ -426,6 +872,7 @@ describe('FirehoseProcessor', () => {
           service: { publicUrl: 'https://ap.example' },
           pds: { url: 'https://pds.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
         },
       } as unknown as AppContext
 
@@ -492,6 +939,7 @@ describe('FirehoseProcessor', () => {
           service: { publicUrl: 'https://ap.example' },
           pds: { url: 'https://pds.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
         },
       } as unknown as AppContext
 
@@ -560,6 +1008,7 @@ describe('FirehoseProcessor', () => {
           service: { publicUrl: 'https://ap.example' },
           pds: { url: 'https://pds.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
         },
       } as unknown as AppContext
 
@@ -613,6 +1062,7 @@ describe('FirehoseProcessor', () => {
           service: { publicUrl: 'https://ap.example' },
           pds: { url: 'https://pds.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
         },
       } as unknown as AppContext
 
@@ -670,6 +1120,7 @@ describe('FirehoseProcessor', () => {
           service: { publicUrl: 'https://ap.example' },
           pds: { url: 'https://pds.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
         },
       } as unknown as AppContext
 
@@ -746,6 +1197,7 @@ describe('FirehoseProcessor', () => {
           service: { publicUrl: 'https://ap.example' },
           pds: { url: 'https://pds.example' },
           mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
         },
       } as unknown as AppContext
 
@@ -778,4 +1230,103 @@ describe('FirehoseProcessor', () => {
       expect(undoActivity).toBeUndefined()
     })
   })
+
+  describe('processActorUpdate', () => {
+    function setupActorUpdateContext() {
+      const federation = createFederation<void>({
+        contextData: undefined,
+        origin: 'https://ap.example',
+      })
+      federation.setActorDispatcher('/users/{identifier}', () => null)
+
+      const pdsClient = createMockPdsClient({
+        getAccount: vi.fn().mockResolvedValue({
+          did: testData.users.alice.did,
+          handle: 'alice-renamed.test',
+        }),
+        getProfile: vi.fn().mockResolvedValue({
+          displayName: 'Alice (new name)',
+          description: 'Updated bio',
+        }),
+      })
+
+      const mockCtx = {
+        db,
+        pdsClient,
+        mastodonBridgeAccount: createMockMastodonBridgeAccount({
+          isAvailable: vi.fn().mockReturnValue(true),
+          _did: 'did:plc:bridge',
+        }),
+        blueskyBridgeAccount: createMockBlueskyBridgeAccount(),
+        federation,
+        cfg: {
+          service: { publicUrl: 'https://ap.example' },
+          pds: { url: 'https://pds.example' },
+          mastodonBridge: { handle: 'bridge.test' },
+          threadgates: { visibility: 'unlisted' },
+        },
+      } as unknown as AppContext
+
+      return { federation, pdsClient, mockCtx }
+    }
+
+    it('should send Update(Person) when the profile record changes', async () => {
+      const { federation, mockCtx } = setupActorUpdateContext()
+
+      const processor = new FirehoseProcessor(mockCtx)
+      const processCommit = (processor as any).processCommit.bind(processor)
+
+      await processCommit({
+        repo: testData.users.alice.did,
+        ops: [
+          {
+            action: 'update',
+            path: 'app.bsky.actor.profile/self',
+            cid: 'bafyprofile',
+          },
+        ],
+        seq: 1,
+      })
+
+      const sentActivities = federation.sentActivities
+      expect(sentActivities).toHaveLength(1)
+      const activity = sentActivities[0].activity as Update
+      expect(activity).toBeInstanceOf(Update)
+      const person = await activity.getObject()
+      expect(person).toBeInstanceOf(Person)
+      expect(person?.name?.toString()).toBe('Alice (new name)')
+      expect(person?.summary?.toString()).toBe('Updated bio')
+    })
+
+    it('should send Update(Person) with the new handle on identity events', async () => {
+      const { federation, mockCtx } = setupActorUpdateContext()
+
+      const processor = new FirehoseProcessor(mockCtx)
+      const processIdentity = (processor as any).processIdentity.bind(processor)
+
+      await processIdentity({ did: testData.users.alice.did, seq: 2 })
+
+      const sentActivities = federation.sentActivities
+      expect(sentActivities).toHaveLength(1)
+      const person = (await (
+        sentActivities[0].activity as Update
+      ).getObject()) as Person
+      expect(person.preferredUsername?.toString()).toBe('alice-renamed')
+      expect(person.url?.toString()).toBe(
+        'https://bsky.app/profile/alice-renamed.test',
+      )
+    })
+
+    it('should skip identity events from bridge accounts', async () => {
+      const { federation, pdsClient, mockCtx } = setupActorUpdateContext()
+
+      const processor = new FirehoseProcessor(mockCtx)
+      const processIdentity = (processor as any).processIdentity.bind(processor)
+
+      await processIdentity({ did: 'did:plc:bridge', seq: 3 })
+
+      expect(pdsClient.getAccount).not.toHaveBeenCalled()
+      expect(federation.sentActivities).toHaveLength(0)
+    })
+  })
 })
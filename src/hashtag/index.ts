@@ -0,0 +1 @@
+export { createHashtagRouter } from './router'
@@ -0,0 +1,19 @@
+import express from 'express'
+import { getWideEvent } from '../logging'
+
+/**
+ * Tag pages linked from the `Hashtag` tags of outbound Notes. There is no
+ * local post index, so visitors are sent to the hashtag search on Bluesky.
+ */
+export function createHashtagRouter(): express.Router {
+  const router = express.Router()
+
+  router.get('/tags/:tag', (req, res) => {
+    const tag = req.params.tag.replace(/^#/, '')
+    getWideEvent()?.set('hashtag.tag', tag)
+
+    res.redirect(302, `https://bsky.app/hashtag/${encodeURIComponent(tag)}`)
+  })
+
+  return router
+}
@@ -10,11 +10,18 @@ import { createHttpTerminator, HttpTerminator } from 'http-terminator'
 import { APFederationConfig } from './config'
 import { ConstellationProcessor } from './constellation'
 import { AppContext } from './context'
-import { ChatClient, DmNotificationProcessor } from './dm-notifications'
+import { DirectMessageProcessor } from './direct-messages'
+import { DmNotificationProcessor } from './dm-notifications'
 import { createRouter } from './federation'
+import {
+  createFeedGeneratorRouter,
+  publishFeedGeneratorRecord,
+} from './feed-generator'
 import { FirehoseProcessor } from './firehose'
+import { createHashtagRouter } from './hashtag'
 import { logger } from './logger'
 import { wideEventMiddleware } from './logging'
+import { createOutboundFollowRouter } from './outbound-follow'
 
 export * from './config'
 export { AppContext } from './context'
@@ -30,6 +37,7 @@ export class APFederationService {
   private firehoseProcessor?: FirehoseProcessor
   private constellationProcessor?: ConstellationProcessor
   private dmNotificationProcessor?: DmNotificationProcessor
+  private directMessageProcessor?: DirectMessageProcessor
 
   constructor(opts: { ctx: AppContext; app: express.Application }) {
     this.ctx = opts.ctx
@@ -100,6 +108,13 @@ export class APFederationService {
       res.json({ status: 'ok' })
     })
 
+    app.use(createOutboundFollowRouter(ctx))
+    app.use(createHashtagRouter())
+
+    if (cfg.feedGenerator.enabled) {
+      app.use(createFeedGeneratorRouter(ctx))
+    }
+
     const federationRouter = createRouter(ctx)
     app.use(federationRouter)
 
@@ -141,6 +156,13 @@ export class APFederationService {
       logger.info('mastodon bridge account disabled by configuration')
     }
 
+    if (
+      this.ctx.cfg.feedGenerator.enabled &&
+      this.ctx.mastodonBridgeAccount.isAvailable()
+    ) {
+      await publishFeedGeneratorRecord(this.ctx)
+    }
+
     if (this.ctx.cfg.blueskyBridge.enabled) {
       await this.ctx.blueskyBridgeAccount.initialize()
       if (this.ctx.blueskyBridgeAccount.isAvailable()) {
@@ -183,14 +205,24 @@ export class APFederationService {
       this.ctx.cfg.dmNotifications.enabled &&
       this.ctx.mastodonBridgeAccount.isAvailable()
     ) {
-      const chatClient = new ChatClient(this.ctx.mastodonBridgeAccount)
       this.dmNotificationProcessor = new DmNotificationProcessor(
         this.ctx,
-        chatClient,
+        this.ctx.chatClient,
       )
       await this.dmNotificationProcessor.start()
     }
 
+    if (
+      this.ctx.cfg.directMessages.enabled &&
+      this.ctx.mastodonBridgeAccount.isAvailable()
+    ) {
+      this.directMessageProcessor = new DirectMessageProcessor(
+        this.ctx,
+        this.ctx.chatClient,
+      )
+      await this.directMessageProcessor.start()
+    }
+
     return this.server
   }
 
@@ -212,6 +244,11 @@ export class APFederationService {
       this.dmNotificationProcessor = undefined
     }
 
+    if (this.directMessageProcessor) {
+      await this.directMessageProcessor.stop()
+      this.directMessageProcessor = undefined
+    }
+
     if (this.terminator) {
       await this.terminator.terminate()
       this.terminator = undefined
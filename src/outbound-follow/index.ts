@@ -0,0 +1,2 @@
+export { createOutboundFollowRouter } from './router'
+export { OutboundFollowService } from './service'
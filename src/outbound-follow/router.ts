@@ -0,0 +1,114 @@
+import crypto from 'node:crypto'
+import express from 'express'
+import type { AppContext } from '../context'
+import { getWideEvent } from '../logging'
+import { OutboundFollowService } from './service'
+
+/**
+ * Check the request's Basic auth credentials against the PDS admin token,
+ * using the same `admin:<token>` scheme as the PDS admin API.
+ */
+function isAdminRequest(ctx: AppContext, req: express.Request): boolean {
+  const header = req.headers.authorization
+  if (!header?.startsWith('Basic ')) {
+    return false
+  }
+
+  const expected = Buffer.from(`admin:${ctx.cfg.pds.adminToken}`)
+  const provided = Buffer.from(header.slice('Basic '.length), 'base64')
+  return (
+    provided.length === expected.length &&
+    crypto.timingSafeEqual(provided, expected)
+  )
+}
+
+/**
+ * Admin API for managing follows of Fediverse accounts by local users:
+ *
+ * - `GET /admin/follows?userDid=...` lists a user's outbound follows
+ * - `POST /admin/follows` with `{ userDid, target }` sends a Follow, where
+ *   `target` is a `@user@host` handle or an actor URL
+ * - `DELETE /admin/follows` with `{ userDid, actorUri }` sends an Undo(Follow)
+ */
+export function createOutboundFollowRouter(ctx: AppContext): express.Router {
+  const router = express.Router()
+  const service = new OutboundFollowService(ctx)
+
+  router.use('/admin/follows', (req, res, next) => {
+    if (!isAdminRequest(ctx, req)) {
+      getWideEvent()?.set('admin.unauthorized', true)
+      res.status(401).json({ error: 'Unauthorized' })
+      return
+    }
+    next()
+  })
+
+  router.get('/admin/follows', async (req, res, next) => {
+    try {
+      const userDid = req.query.userDid
+      if (typeof userDid !== 'string' || !userDid) {
+        res.status(400).json({ error: 'userDid is required' })
+        return
+      }
+
+      const follows = await ctx.db.getOutboundFollows(userDid)
+      res.json({
+        follows: follows.map((follow) => ({
+          actorUri: follow.actorUri,
+          status: follow.status,
+          createdAt: follow.createdAt,
+        })),
+      })
+    } catch (err) {
+      next(err)
+    }
+  })
+
+  router.post('/admin/follows', async (req, res, next) => {
+    try {
+      const { userDid, target } = req.body ?? {}
+      if (typeof userDid !== 'string' || typeof target !== 'string') {
+        res.status(400).json({ error: 'userDid and target are required' })
+        return
+      }
+
+      const account = await ctx.pdsClient.getAccount(userDid)
+      if (!account) {
+        res.status(404).json({ error: 'User not found' })
+        return
+      }
+
+      const follow = await service.follow(userDid, target)
+      if (!follow) {
+        res.status(404).json({ error: 'Actor not found' })
+        return
+      }
+
+      res.json({ actorUri: follow.actorUri, status: follow.status })
+    } catch (err) {
+      next(err)
+    }
+  })
+
+  router.delete('/admin/follows', async (req, res, next) => {
+    try {
+      const { userDid, actorUri } = req.body ?? {}
+      if (typeof userDid !== 'string' || typeof actorUri !== 'string') {
+        res.status(400).json({ error: 'userDid and actorUri are required' })
+        return
+      }
+
+      const undone = await service.unfollow(userDid, actorUri)
+      if (!undone) {
+        res.status(404).json({ error: 'Follow not found' })
+        return
+      }
+
+      res.json({ actorUri, status: 'removed' })
+    } catch (err) {
+      next(err)
+    }
+  })
+
+  return router
+}
@@ -0,0 +1,114 @@
+import crypto from 'node:crypto'
+import { Follow, isActor, Undo } from '@fedify/vocab'
+import type { AppContext } from '../context'
+import type { outboundFollow } from '../db/schema'
+import { getWideEvent } from '../logging'
+
+/**
+ * Sends Follow and Undo(Follow) activities on behalf of local users so they
+ * can follow Fediverse accounts. Accept/Reject responses are handled by the
+ * inbox listeners, which update the stored follow status.
+ */
+export class OutboundFollowService {
+  private ctx: AppContext
+
+  constructor(ctx: AppContext) {
+    this.ctx = ctx
+  }
+
+  /**
+   * Follow a Fediverse account, given either a `@user@host` handle or an
+   * actor URL. Returns null if the target could not be resolved to an actor.
+   */
+  async follow(
+    userDid: string,
+    target: string,
+  ): Promise<outboundFollow.APOutboundFollow | null> {
+    const event = getWideEvent()
+    event?.set('outbound_follow.user_did', userDid)
+    event?.set('outbound_follow.target', target)
+
+    const fedCtx = this.ctx.federation.createContext(
+      new URL(this.ctx.cfg.service.publicUrl),
+    )
+
+    const actor = await fedCtx.lookupObject(target)
+    if (!isActor(actor) || actor.id === null || actor.inboxId === null) {
+      event?.set('outbound_follow.ignored_reason', 'actor_not_found')
+      return null
+    }
+
+    event?.set('outbound_follow.actor_uri', actor.id.href)
+
+    const followerUri = fedCtx.getActorUri(userDid)
+    const follow = new Follow({
+      id: new URL(`#follow-${crypto.randomUUID()}`, followerUri),
+      actor: followerUri,
+      object: actor.id,
+    })
+
+    const now = new Date().toISOString()
+    const existing = await this.ctx.db.getOutboundFollow(userDid, actor.id.href)
+    const saved = await this.ctx.db.saveOutboundFollow({
+      userDid,
+      actorUri: actor.id.href,
+      actorInbox: actor.inboxId.href,
+      actorSharedInbox: actor.endpoints?.sharedInbox?.href ?? null,
+      activityId: (follow.id as URL).href,
+      status: 'pending',
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    })
+
+    await fedCtx.sendActivity({ identifier: userDid }, actor, follow)
+    event?.set('outbound_follow.activity_id', saved.activityId)
+
+    return saved
+  }
+
+  /**
+   * Undo a previous outbound follow. Returns false if the user was not
+   * following the given actor.
+   */
+  async unfollow(userDid: string, actorUri: string): Promise<boolean> {
+    const event = getWideEvent()
+    event?.set('outbound_follow.user_did', userDid)
+    event?.set('outbound_follow.actor_uri', actorUri)
+
+    const existing = await this.ctx.db.getOutboundFollow(userDid, actorUri)
+    if (!existing) {
+      event?.set('outbound_follow.ignored_reason', 'not_following')
+      return false
+    }
+
+    const fedCtx = this.ctx.federation.createContext(
+      new URL(this.ctx.cfg.service.publicUrl),
+    )
+    const followerUri = fedCtx.getActorUri(userDid)
+
+    await fedCtx.sendActivity(
+      { identifier: userDid },
+      {
+        id: new URL(existing.actorUri),
+        inboxId: new URL(existing.actorInbox),
+        endpoints: existing.actorSharedInbox
+          ? { sharedInbox: new URL(existing.actorSharedInbox) }
+          : null,
+      },
+      new Undo({
+        id: new URL(`#undo-follow-${crypto.randomUUID()}`, followerUri),
+        actor: followerUri,
+        object: new Follow({
+          id: new URL(existing.activityId),
+          actor: followerUri,
+          object: new URL(existing.actorUri),
+        }),
+      }),
+    )
+
+    await this.ctx.db.deleteOutboundFollow(userDid, actorUri)
+    event?.set('outbound_follow.undone', true)
+
+    return true
+  }
+}
@@ -0,0 +1,161 @@
+import type { AddressInfo } from 'node:net'
+import { Follow, Person } from '@fedify/vocab'
+import express from 'express'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { AppContext } from '../../context'
+import type { APDatabase } from '../../db'
+import { createMockPdsClient, createTestDb, testData } from '../../test-utils'
+import { createOutboundFollowRouter } from '../router'
+
+const adminToken = 'admin-secret'
+
+function basicAuth(user: string, password: string): string {
+  return `Basic ${Buffer.from(`${user}:${password}`).toString('base64')}`
+}
+
+describe('outbound follow router', () => {
+  let db: APDatabase
+  let server: ReturnType<express.Application['listen']>
+  let baseUrl: string
+  let fedCtx: {
+    lookupObject: ReturnType<typeof vi.fn>
+    getActorUri: ReturnType<typeof vi.fn>
+    sendActivity: ReturnType<typeof vi.fn>
+  }
+
+  beforeEach(async () => {
+    db = await createTestDb()
+    fedCtx = {
+      lookupObject: vi.fn().mockImplementation(async (target: string) =>
+        target === '@bob@remote.example'
+          ? new Person({
+              id: new URL('https://remote.example/users/bob'),
+              inbox: new URL('https://remote.example/users/bob/inbox'),
+            })
+          : null,
+      ),
+      getActorUri: vi.fn(
+        (identifier: string) =>
+          new URL(`https://ap.example/users/${identifier}`),
+      ),
+      sendActivity: vi.fn().mockResolvedValue(undefined),
+    }
+
+    const ctx = {
+      db,
+      pdsClient: createMockPdsClient({
+        getAccount: vi
+          .fn()
+          .mockImplementation(async (did: string) =>
+            did === testData.users.alice.did
+              ? { did, handle: testData.users.alice.handle }
+              : null,
+          ),
+      }),
+      federation: { createContext: vi.fn().mockReturnValue(fedCtx) },
+      cfg: {
+        service: { publicUrl: 'https://ap.example' },
+        pds: { adminToken },
+      },
+    } as unknown as AppContext
+
+    const app = express()
+    app.use(express.json())
+    app.use(createOutboundFollowRouter(ctx))
+    server = app.listen(0, '127.0.0.1')
+    await new Promise((resolve) => server.once('listening', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve))
+    await db.close()
+  })
+
+  function postFollow(body: unknown, authorization?: string) {
+    return fetch(`${baseUrl}/admin/follows`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(authorization ? { Authorization: authorization } : {}),
+      },
+      body: JSON.stringify(body),
+    })
+  }
+
+  it('should reject requests without credentials', async () => {
+    const res = await postFollow({
+      userDid: testData.users.alice.did,
+      target: '@bob@remote.example',
+    })
+
+    expect(res.status).toBe(401)
+    expect(fedCtx.sendActivity).not.toHaveBeenCalled()
+  })
+
+  it('should reject requests with a wrong admin token', async () => {
+    const res = await fetch(
+      `${baseUrl}/admin/follows?userDid=${testData.users.alice.did}`,
+      { headers: { Authorization: basicAuth('admin', 'wrong-secret') } },
+    )
+
+    expect(res.status).toBe(401)
+  })
+
+  it('should reject credentials that are not Basic auth', async () => {
+    const res = await postFollow(
+      { userDid: testData.users.alice.did, target: '@bob@remote.example' },
+      `Bearer ${adminToken}`,
+    )
+
+    expect(res.status).toBe(401)
+  })
+
+  it('should respond 404 when the handle does not resolve to an actor', async () => {
+    const res = await postFollow(
+      { userDid: testData.users.alice.did, target: '@nobody@remote.example' },
+      basicAuth('admin', adminToken),
+    )
+
+    expect(res.status).toBe(404)
+    expect(await res.json()).toEqual({ error: 'Actor not found' })
+    expect(fedCtx.sendActivity).not.toHaveBeenCalled()
+  })
+
+  it('should respond 404 for users not on the PDS', async () => {
+    const res = await postFollow(
+      { userDid: 'did:plc:unknown', target: '@bob@remote.example' },
+      basicAuth('admin', adminToken),
+    )
+
+    expect(res.status).toBe(404)
+    expect(await res.json()).toEqual({ error: 'User not found' })
+  })
+
+  it('should send a Follow and list it as pending', async () => {
+    const res = await postFollow(
+      { userDid: testData.users.alice.did, target: '@bob@remote.example' },
+      basicAuth('admin', adminToken),
+    )
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      actorUri: 'https://remote.example/users/bob',
+      status: 'pending',
+    })
+    expect(fedCtx.sendActivity).toHaveBeenCalledTimes(1)
+    expect(fedCtx.sendActivity.mock.calls[0][2]).toBeInstanceOf(Follow)
+
+    const list = await fetch(
+      `${baseUrl}/admin/follows?userDid=${testData.users.alice.did}`,
+      { headers: { Authorization: basicAuth('admin', adminToken) } },
+    )
+    const { follows } = (await list.json()) as { follows: unknown[] }
+    expect(follows).toEqual([
+      expect.objectContaining({
+        actorUri: 'https://remote.example/users/bob',
+        status: 'pending',
+      }),
+    ])
+  })
+})
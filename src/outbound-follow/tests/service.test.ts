@@ -0,0 +1,137 @@
+import { Follow, Person, Undo } from '@fedify/vocab'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { AppContext } from '../../context'
+import type { APDatabase } from '../../db'
+import { createTestDb, testData } from '../../test-utils'
+import { OutboundFollowService } from '../service'
+
+const remoteActor = new Person({
+  id: new URL('https://remote.example/users/bob'),
+  preferredUsername: 'bob',
+  inbox: new URL('https://remote.example/users/bob/inbox'),
+})
+
+function createMockFederationContext(actor: unknown = remoteActor) {
+  return {
+    lookupObject: vi.fn().mockResolvedValue(actor),
+    getActorUri: vi.fn(
+      (identifier: string) => new URL(`https://ap.example/users/${identifier}`),
+    ),
+    sendActivity: vi.fn().mockResolvedValue(undefined),
+  }
+}
+
+describe('OutboundFollowService', () => {
+  let db: APDatabase
+  let fedCtx: ReturnType<typeof createMockFederationContext>
+  let service: OutboundFollowService
+
+  function createService(actor?: unknown) {
+    fedCtx = createMockFederationContext(actor)
+    service = new OutboundFollowService({
+      db,
+      federation: { createContext: vi.fn().mockReturnValue(fedCtx) },
+      cfg: { service: { publicUrl: 'https://ap.example' } },
+    } as unknown as AppContext)
+  }
+
+  beforeEach(async () => {
+    db = await createTestDb()
+    createService()
+  })
+
+  afterEach(async () => {
+    await db.close()
+  })
+
+  describe('follow', () => {
+    it('should send a Follow to the actor and store it as pending', async () => {
+      const follow = await service.follow(
+        testData.users.alice.did,
+        '@bob@remote.example',
+      )
+
+      expect(fedCtx.lookupObject).toHaveBeenCalledWith('@bob@remote.example')
+      expect(follow).toMatchObject({
+        userDid: testData.users.alice.did,
+        actorUri: 'https://remote.example/users/bob',
+        actorInbox: 'https://remote.example/users/bob/inbox',
+        status: 'pending',
+      })
+
+      expect(fedCtx.sendActivity).toHaveBeenCalledTimes(1)
+      const [sender, recipient, activity] = fedCtx.sendActivity.mock.calls[0]
+      expect(sender).toEqual({ identifier: testData.users.alice.did })
+      expect(recipient).toBe(remoteActor)
+      expect(activity).toBeInstanceOf(Follow)
+      expect(activity.id.href).toBe(follow?.activityId)
+      expect(activity.actorId.href).toBe(
+        `https://ap.example/users/${testData.users.alice.did}`,
+      )
+      expect(activity.objectId.href).toBe('https://remote.example/users/bob')
+
+      const stored = await db.getOutboundFollow(
+        testData.users.alice.did,
+        'https://remote.example/users/bob',
+      )
+      expect(stored?.activityId).toBe(follow?.activityId)
+    })
+
+    it('should return null without sending when the target is not an actor', async () => {
+      createService(null)
+
+      const follow = await service.follow(
+        testData.users.alice.did,
+        '@nobody@remote.example',
+      )
+
+      expect(follow).toBeNull()
+      expect(fedCtx.sendActivity).not.toHaveBeenCalled()
+      expect(await db.getOutboundFollows(testData.users.alice.did)).toEqual([])
+    })
+  })
+
+  describe('unfollow', () => {
+    it('should send an Undo of the stored Follow and delete it', async () => {
+      const follow = await service.follow(
+        testData.users.alice.did,
+        'https://remote.example/users/bob',
+      )
+      fedCtx.sendActivity.mockClear()
+
+      const undone = await service.unfollow(
+        testData.users.alice.did,
+        'https://remote.example/users/bob',
+      )
+
+      expect(undone).toBe(true)
+      expect(fedCtx.sendActivity).toHaveBeenCalledTimes(1)
+      const [sender, recipient, activity] = fedCtx.sendActivity.mock.calls[0]
+      expect(sender).toEqual({ identifier: testData.users.alice.did })
+      expect(recipient.inboxId.href).toBe(
+        'https://remote.example/users/bob/inbox',
+      )
+      expect(activity).toBeInstanceOf(Undo)
+      const undoneFollow = await activity.getObject()
+      expect(undoneFollow).toBeInstanceOf(Follow)
+      expect(undoneFollow.id.href).toBe(follow?.activityId)
+
+      expect(
+        await db.getOutboundFollow(
+          testData.users.alice.did,
+          'https://remote.example/users/bob',
+        ),
+      ).toBeFalsy()
+    })
+
+    it('should return false when the user does not follow the actor', async () => {
+      const undone = await service.unfollow(
+        testData.users.alice.did,
+        'https://remote.example/users/bob',
+      )
+
+      expect(undone).toBe(false)
+      expect(fedCtx.sendActivity).not.toHaveBeenCalled()
+    })
+  })
+})
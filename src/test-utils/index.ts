@@ -80,6 +80,10 @@ export function createMockMastodonBridgeAccount(
       uri: `at://${_did}/app.bsky.feed.post/test123`,
       cid: 'bafytest',
     }),
+    putRecord: vi.fn().mockResolvedValue({
+      uri: `at://${_did}/app.bsky.feed.post/test123`,
+      cid: 'bafytest',
+    }),
     deleteRecord: vi.fn().mockResolvedValue(undefined),
     uploadBlob: vi.fn().mockResolvedValue({
       ref: { toString: () => 'bafyblob' },